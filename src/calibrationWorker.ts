@@ -0,0 +1,53 @@
+"use strict";
+
+/// <reference types="node" />
+
+// Runs in a worker thread or a child process started by Isolation.generateTimings()
+
+import * as argon2 from "./index";
+
+function getParentPort(): any {
+    try {
+        return require("worker_threads").parentPort;
+    } catch (e) {
+        // Node.JS without worker threads can still run us as a child process
+        return undefined;
+    }
+}
+
+const parentPort = getParentPort();
+const signal: argon2.Measurement.CancellationToken = { aborted: false };
+
+function send(message: any): void {
+    if (parentPort) {
+        parentPort.postMessage(message);
+    } else {
+        process.send(message);
+    }
+}
+
+async function run(timingStrategy: string, options: argon2.Measurement.TimingOptions): Promise<void> {
+    try {
+        options.signal = signal;
+        options.eventCallback = event => send({ type: "event", event: event });
+
+        const result = await argon2.Measurement.generateTimings(options, argon2.Measurement.getTimingStrategyByName(timingStrategy));
+        send({ type: "result", result: result });
+    } catch (e) {
+        send({ type: "error", message: e.message });
+    }
+}
+
+function onMessage(message: any): void {
+    if (message.type === "cancel") {
+        signal.aborted = true;
+    } else if (message.type === "run") {
+        run(message.timingStrategy, message.options);
+    }
+}
+
+if (parentPort) {
+    parentPort.on("message", onMessage);
+} else {
+    process.on("message", onMessage);
+}
@@ -0,0 +1,404 @@
+#!/usr/bin/env node
+"use strict";
+
+/// <reference types="node" />
+
+import * as fs from "fs";
+import * as _ from "lodash";
+import * as argon2 from "./index";
+
+export interface Output {
+    write(text: string): any;
+}
+
+// Exit codes, so scripts can tell a wrong password from a mistake on the command line or a crash
+export const exitCodes = {
+    success: 0,
+    failure: 1,
+    usage: 2,
+    error: 3
+};
+
+const usage = `Usage: argon2themax <command> [options]
+
+Commands:
+  calibrate                 Measure this machine and print the max options
+  hash [password]           Hash a password with the max options (reads stdin without a password)
+  verify <hash> [password]  Exit 0 when the password matches, 1 when it doesn't (reads stdin without a password)
+  inspect <hash>            Print the parameters of a hash and how long it is estimated to take to verify here
+  report                    Calibrate argon2d, argon2i and argon2id and compare the options each budget gets
+  audit --baseline <path>   Compare this machine with a saved calibration profile, and with --hashes, exit 1
+                            when any stored hashes are estimated to take longer than --max-ms to verify here
+
+Options:
+  --max-ms <ms>                     Max time to spend on a hash (default 100)
+  --type <argon2d|argon2i|argon2id> Argon2 variant (default argon2i)
+  --timing-strategy <name>          maxmemory, closestmatch, bisection or parallelism (default closestmatch)
+  --selection-strategy <name>       maxcost, closestmatch or pareto (default maxcost)
+  --options <json>                  Hash with these options instead of calibrating
+  --budgets <ms,ms,...>             Budgets to report on (default --max-ms)
+  --out <path>                      Write the report to path.json, path.md and path.html instead of printing Markdown
+  --baseline <path>                 Calibration profile to compare with. Saved from this machine when it doesn't exist.
+  --hashes <path>                   File of stored hashes to audit, one per line, or - for stdin
+  --json                            Print JSON
+
+Exit codes:
+  0  Success
+  1  The password doesn't match, or audit found hashes over --max-ms
+  2  Bad arguments, including a malformed hash
+  3  Anything else went wrong, such as argon2 failing or an unreadable file
+`;
+
+const types: { [name: string]: number; } = {
+    argon2d: argon2.argon2d,
+    argon2i: argon2.argon2i,
+    argon2id: argon2.argon2id
+};
+
+const timingStrategies: { [name: string]: argon2.Measurement.TimingStrategyType; } = {
+    maxmemory: argon2.Measurement.TimingStrategyType.MaxMemoryMarch,
+    closestmatch: argon2.Measurement.TimingStrategyType.ClosestMatch,
+    bisection: argon2.Measurement.TimingStrategyType.Bisection,
+    parallelism: argon2.Measurement.TimingStrategyType.ParallelismSearch
+};
+
+const selectionStrategies: { [name: string]: argon2.Selection.SelectionStrategyType; } = {
+    maxcost: argon2.Selection.SelectionStrategyType.MaxCost,
+    closestmatch: argon2.Selection.SelectionStrategyType.ClosestMatch,
+    pareto: argon2.Selection.SelectionStrategyType.Pareto
+};
+
+interface Flags {
+    maxMs?: string;
+    type?: string;
+    timingStrategy?: string;
+    selectionStrategy?: string;
+    options?: string;
+    budgets?: string;
+    out?: string;
+    baseline?: string;
+    hashes?: string;
+    json?: boolean;
+}
+
+const valueFlags = ["maxMs", "type", "timingStrategy", "selectionStrategy", "options", "budgets", "out", "baseline", "hashes"];
+
+interface Arguments {
+    command: string;
+    positional: string[];
+    flags: Flags;
+}
+
+interface UsageError extends Error {
+    isUsageError: boolean;
+}
+
+function usageError(message: string): UsageError {
+    const err = <UsageError> new Error(message);
+    err.isUsageError = true;
+    return err;
+}
+
+function parseArguments(argv: string[]): Arguments {
+    const args: Arguments = { command: argv[0], positional: [], flags: {} };
+
+    for (let i = 1; i < argv.length; i++) {
+        const arg = argv[i];
+        const flag = _.camelCase(arg.substr(2));
+        if (arg === "--json") {
+            args.flags.json = true;
+        } else if (_.startsWith(arg, "--")) {
+            if (!_.includes(valueFlags, flag)) {
+                throw usageError(`Unknown option ${arg}.`);
+            }
+            if (i + 1 >= argv.length) {
+                throw usageError(`Missing value for ${arg}.`);
+            }
+            (<any> args.flags)[flag] = argv[++i];
+        } else {
+            args.positional.push(arg);
+        }
+    }
+
+    return args;
+}
+
+function lookup<T>(table: { [name: string]: T; }, flag: string, value: string, fallback: T): T {
+    if (value === undefined) {
+        return fallback;
+    }
+
+    if (!_.has(table, value)) {
+        throw usageError(`Unknown --${flag} "${value}". Expected one of: ${_.keys(table).join(", ")}.`);
+    }
+
+    return table[value];
+}
+
+function getMaxMs(args: Arguments): number {
+    const value = args.flags.maxMs;
+    if (value === undefined) {
+        return argon2.Measurement.defaultTimingOptions.maxTimeMs;
+    }
+
+    const maxMs = Number(value);
+    if (!(maxMs > 0)) {
+        throw usageError(`--max-ms must be a positive number of milliseconds.`);
+    }
+
+    return maxMs;
+}
+
+function getTimingOptions(args: Arguments): argon2.Measurement.TimingOptions {
+    return {
+        maxTimeMs: getMaxMs(args),
+        type: lookup(types, "type", args.flags.type, argon2.Measurement.defaultTimingOptions.type)
+    };
+}
+
+function readStdin(): Promise<string> {
+    return new Promise((resolve, reject) => {
+        let data = "";
+        process.stdin.setEncoding("utf8");
+        process.stdin.on("data", (chunk: string) => data += chunk);
+        process.stdin.on("end", () => resolve(data.replace(/\r?\n$/, "")));
+        process.stdin.on("error", reject);
+    });
+}
+
+function getPassword(args: Arguments, index: number): Promise<string> {
+    const password = args.positional[index];
+    return password === undefined ? readStdin() : Promise.resolve(password);
+}
+
+function formatOptions(options: argon2.Options): string {
+    const type = _.findKey(types, t => t === options.type);
+    const mb = Math.pow(2, options.memoryCost) / 1024;
+    return `${type} M: ${options.memoryCost} (${mb}MB) T: ${options.timeCost} P: ${options.parallelism}`;
+}
+
+async function calibrate(args: Arguments, out: Output): Promise<number> {
+    const timingOptions = getTimingOptions(args);
+    const timingStrategy = argon2.Measurement.getTimingStrategy(
+        lookup(timingStrategies, "timing-strategy", args.flags.timingStrategy, argon2.Measurement.TimingStrategyType.ClosestMatch));
+    const selectionStrategy = argon2.Selection.getSelectionStrategy(
+        lookup(selectionStrategies, "selection-strategy", args.flags.selectionStrategy, argon2.Selection.SelectionStrategyType.MaxCost));
+
+    if (!args.flags.json) {
+        timingOptions.statusCallback = t => {
+            out.write(`Hashed in ${t.computeTimeMs.toFixed(2)}ms. ${formatOptions(t.options)}\n`);
+            return true;
+        };
+    }
+
+    const result = await argon2.Measurement.generateTimings(timingOptions, timingStrategy);
+    selectionStrategy.initialize(result);
+    const selected = selectionStrategy.select(timingOptions.maxTimeMs);
+
+    if (args.flags.json) {
+        out.write(JSON.stringify({
+            maxTimeMs: timingOptions.maxTimeMs,
+            timingStrategy: timingStrategy.name,
+            selectionStrategy: selectionStrategy.name,
+            selected: selected,
+            timings: result.timings
+        }, null, 2) + "\n");
+    } else {
+        out.write(`Selected ${formatOptions(selected.options)}, hashed in ${selected.computeTimeMs.toFixed(2)}ms.\n`);
+        out.write(JSON.stringify(selected.options) + "\n");
+    }
+
+    return exitCodes.success;
+}
+
+async function hash(args: Arguments, out: Output): Promise<number> {
+    let options: argon2.Options;
+    if (args.flags.options !== undefined) {
+        try {
+            options = JSON.parse(args.flags.options);
+        } catch (e) {
+            throw usageError(`--options must be JSON.`);
+        }
+    } else {
+        const timingOptions = getTimingOptions(args);
+        options = await argon2.getMaxOptions(
+            timingOptions.maxTimeMs,
+            lookup(timingStrategies, "timing-strategy", args.flags.timingStrategy, argon2.Measurement.TimingStrategyType.ClosestMatch),
+            lookup(selectionStrategies, "selection-strategy", args.flags.selectionStrategy, argon2.Selection.SelectionStrategyType.MaxCost),
+            { timingOptions: timingOptions });
+    }
+
+    const password = await getPassword(args, 0);
+    const salt = await argon2.generateSalt();
+    const encoded = await argon2.hash(password, salt, options);
+
+    out.write(args.flags.json ? JSON.stringify({ hash: encoded, options: options }) + "\n" : encoded + "\n");
+    return exitCodes.success;
+}
+
+function getHashParameters(encoded: string): argon2.HashParameters {
+    try {
+        return argon2.getHashParameters(encoded);
+    } catch (e) {
+        throw usageError(e.message);
+    }
+}
+
+async function verify(args: Arguments, out: Output): Promise<number> {
+    const encoded = args.positional[0];
+    if (!encoded) {
+        throw usageError("verify needs a hash.");
+    }
+
+    // A malformed hash is a mistake on the command line, not a wrong password
+    getHashParameters(encoded);
+
+    const match = await argon2.verify(encoded, await getPassword(args, 1));
+
+    out.write(args.flags.json ? JSON.stringify({ match: match }) + "\n" : (match ? "Match\n" : "No match\n"));
+    return match ? exitCodes.success : exitCodes.failure;
+}
+
+async function inspect(args: Arguments, out: Output): Promise<number> {
+    const encoded = args.positional[0];
+    if (!encoded) {
+        throw usageError("inspect needs a hash.");
+    }
+
+    const parameters = getHashParameters(encoded);
+
+    // Estimated from a calibration up to --max-ms instead of verifying, since a hostile hash
+    // could take minutes or all of the memory to verify
+    const timingOptions = getTimingOptions(args);
+    const timingStrategy = argon2.Measurement.getTimingStrategy(
+        lookup(timingStrategies, "timing-strategy", args.flags.timingStrategy, argon2.Measurement.TimingStrategyType.Bisection));
+    const model = argon2.Model.fit(await argon2.Measurement.generateTimings(timingOptions, timingStrategy));
+    const estimatedVerifyMs = model.estimateVerifyMs(encoded);
+
+    if (args.flags.json) {
+        out.write(JSON.stringify(_.extend({ estimatedVerifyMs: estimatedVerifyMs }, parameters), null, 2) + "\n");
+    } else {
+        out.write(`${formatOptions(parameters)} Version: ${parameters.version}\n`);
+        out.write(`Estimated to verify in ${estimatedVerifyMs.toFixed(2)}ms on this machine.\n`);
+    }
+
+    return exitCodes.success;
+}
+
+function getBudgets(args: Arguments): number[] {
+    if (args.flags.budgets === undefined) {
+        return [getMaxMs(args)];
+    }
+
+    const budgets = _.map(args.flags.budgets.split(","), Number);
+    if (!_.every(budgets, maxMs => maxMs > 0)) {
+        throw usageError(`--budgets must be positive numbers of milliseconds, separated by commas.`);
+    }
+
+    return budgets;
+}
+
+async function report(args: Arguments, out: Output): Promise<number> {
+    const budgets = getBudgets(args);
+    const result = await argon2.Report.generate({
+        budgets: budgets,
+        timingStrategy: argon2.Measurement.getTimingStrategy(
+            lookup(timingStrategies, "timing-strategy", args.flags.timingStrategy, argon2.Measurement.TimingStrategyType.ClosestMatch)),
+        selectionStrategy:
+            lookup(selectionStrategies, "selection-strategy", args.flags.selectionStrategy, argon2.Selection.SelectionStrategyType.MaxCost)
+    });
+
+    if (args.flags.out !== undefined) {
+        const files = await argon2.Report.save(args.flags.out, result);
+        out.write(files.join("\n") + "\n");
+    } else {
+        out.write(args.flags.json ? argon2.Report.toJson(result) : argon2.Report.toMarkdown(result));
+    }
+
+    return exitCodes.success;
+}
+
+async function audit(args: Arguments, out: Output): Promise<number> {
+    const baselinePath = args.flags.baseline;
+    if (!baselinePath) {
+        throw usageError("audit needs a --baseline.");
+    }
+
+    const timingOptions = getTimingOptions(args);
+    const timingStrategy = argon2.Measurement.getTimingStrategy(
+        lookup(timingStrategies, "timing-strategy", args.flags.timingStrategy, argon2.Measurement.TimingStrategyType.ClosestMatch));
+    const selectionStrategy = argon2.Selection.getSelectionStrategy(
+        lookup(selectionStrategies, "selection-strategy", args.flags.selectionStrategy, argon2.Selection.SelectionStrategyType.MaxCost));
+
+    const current: argon2.Profile.CalibrationProfile = {
+        fingerprint: argon2.Profile.getFingerprint(timingOptions.type, timingStrategy.name, selectionStrategy.name),
+        maxTimeMs: timingOptions.maxTimeMs,
+        createdAt: new Date().toISOString(),
+        timingResult: await argon2.Measurement.generateTimings(timingOptions, timingStrategy)
+    };
+
+    const baseline = await argon2.Profile.load(baselinePath);
+    let hardwareChange: argon2.Audit.HardwareChange;
+    if (baseline) {
+        hardwareChange = argon2.Audit.compare(baseline, current);
+    } else {
+        await argon2.Profile.save(baselinePath, current);
+    }
+
+    let hashAudit: argon2.Audit.HashAudit;
+    if (args.flags.hashes !== undefined) {
+        const input = args.flags.hashes === "-" ? process.stdin : fs.createReadStream(args.flags.hashes);
+        hashAudit = await argon2.Audit.auditStream(argon2.Model.fit(current.timingResult), input, timingOptions.maxTimeMs);
+    }
+
+    if (args.flags.json) {
+        out.write(JSON.stringify({ baselineSaved: !baseline, hardwareChange: hardwareChange, hashAudit: hashAudit }, null, 2) + "\n");
+    } else {
+        if (hardwareChange) {
+            const changed = hardwareChange.changedFields.length ? hardwareChange.changedFields.join(", ") : "nothing";
+            out.write(`Hashes take ${hardwareChange.slowdown.toFixed(2)}x as long as on the baseline. Changed: ${changed}.\n`);
+        } else {
+            out.write(`Saved this machine as the baseline in ${baselinePath}.\n`);
+        }
+
+        if (hashAudit) {
+            out.write(`${hashAudit.total} hashes, ${hashAudit.unrecognized} unrecognized.\n`);
+            hashAudit.groups.forEach(group => out.write(`${group.overBudget ? "Over" : "OK  "} ${group.key} ` +
+                `x${group.count}, verifies in about ${group.estimatedVerifyMs.toFixed(2)}ms.\n`));
+        }
+    }
+
+    return hashAudit && hashAudit.overBudget.length ? exitCodes.failure : exitCodes.success;
+}
+
+const commands: { [name: string]: (args: Arguments, out: Output) => Promise<number>; } = {
+    calibrate: calibrate,
+    hash: hash,
+    verify: verify,
+    inspect: inspect,
+    report: report,
+    audit: audit
+};
+
+export async function run(argv: string[], out: Output = process.stdout, err: Output = process.stderr): Promise<number> {
+    try {
+        const args = parseArguments(argv);
+        if (!_.has(commands, args.command)) {
+            throw usageError(args.command ? `Unknown command "${args.command}".` : "Missing command.");
+        }
+
+        return await commands[args.command](args, out);
+    } catch (e) {
+        if (e.isUsageError) {
+            err.write(`${e.message}\n\n${usage}`);
+            return exitCodes.usage;
+        }
+
+        err.write(`${e.message}\n`);
+        return exitCodes.error;
+    }
+}
+
+if (require.main === module) {
+    run(process.argv.slice(2)).then(code => process.exitCode = code);
+}
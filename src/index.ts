@@ -2,7 +2,12 @@
 
 /// <reference types="node" />
 
+import * as crypto from "crypto";
+import { EventEmitter } from "events";
+import * as fs from "fs";
 import * as os from "os";
+import * as path from "path";
+import * as readline from "readline";
 import * as _ from "lodash";
 
 // Begin Argon2 cloned interface for ease of use
@@ -32,12 +37,30 @@ export interface OptionLimits {
 }
 
 const argon2lib: any = require("argon2");
-export const defaults: Options = argon2lib.defaults;
-export const limits: OptionLimits = argon2lib.limits;
 
-export const hash:
-    (plain: Buffer | string, salt: Buffer, options?: Options) => Promise<string>
-    = argon2lib.hash;
+// argon2 takes memoryCost in KiB, but here it is a power of two, as in older versions of argon2.
+// This is the only place it is converted, so KiB never gets mixed into Options.
+function toArgon2Options(options: Options, salt: Buffer): any {
+    const argon2Options: any = _.extend({}, options, { salt: salt });
+    if (argon2Options.memoryCost !== undefined) {
+        argon2Options.memoryCost = Math.pow(2, argon2Options.memoryCost);
+    }
+    return argon2Options;
+}
+
+export const defaults: Options = _.extend({}, argon2lib.defaults, {
+    memoryCost: Math.log2(argon2lib.defaults.memoryCost)
+});
+export const limits: OptionLimits = _.extend({}, argon2lib.limits, {
+    memoryCost: {
+        max: Math.floor(Math.log2(argon2lib.limits.memoryCost.max)),
+        min: Math.ceil(Math.log2(argon2lib.limits.memoryCost.min))
+    }
+});
+
+export function hash(plain: Buffer | string, salt: Buffer, options?: Options): Promise<string> {
+    return argon2lib.hash(plain, toArgon2Options(options, salt));
+}
 
 // This used to be defined in argon2lib.generateSalt but then being remove
 // https://github.com/ranisalt/node-argon2/commit/72fed64dc752a97613a0a63143b810b35ee69abf#diff-04c6e90faac2675aa89e2176d2eec7d8L24
@@ -48,9 +71,9 @@ export function generateSalt(length?: number): Promise<Buffer> {
                 reject(err);
             }
             resolve(salt);
-        })
-    })
-};
+        });
+    });
+}
 
 export const verify:
     (hash: string, plain: Buffer | string) => Promise<boolean>
@@ -59,15 +82,354 @@ export const verify:
 
 // End Argon2 cloned interface for ease of use
 
+// The only Argon2 version the native module produces (0x13)
+const argon2Version: number = 19;
+const typeNames: { [name: string]: number; } = {
+    argon2d: argon2d,
+    argon2i: argon2i,
+    argon2id: argon2id
+};
+
+export interface HashParameters extends Options {
+    version: number;
+}
+
+const parametersPattern = /^\$(argon2(?:d|i|id))(?:\$v=(\d+))?\$m=(\d+),t=(\d+),p=(\d+)\$/;
+
+function matchParameters(encodedHash: string): RegExpExecArray {
+    const match = parametersPattern.exec(encodedHash || "");
+    if (!match) {
+        throw new Error("Argument error. Unrecognized hash format.");
+    }
+    return match;
+}
+
+// Reads the parameters out of an encoded hash. memoryCost is reported as a power of two,
+// same as the Options passed to hash(), so the two can be compared directly.
+// Hashes from before the version field was added are reported as version 16 (0x10).
+export function getHashParameters(encodedHash: string): HashParameters {
+    const match = matchParameters(encodedHash);
+
+    return {
+        type: typeNames[match[1]],
+        version: match[2] ? parseInt(match[2], 10) : 16,
+        memoryCost: Math.log2(parseInt(match[3], 10)),
+        timeCost: parseInt(match[4], 10),
+        parallelism: parseInt(match[5], 10)
+    };
+}
+
+// The m= of an encoded hash, exactly. 2^memoryCost can be off by a rounding error when m isn't a power of two.
+export function getHashMemoryKiB(encodedHash: string): number {
+    return parseInt(matchParameters(encodedHash)[3], 10);
+}
+
+// True when the hash was made with a different type, an older version, less memory or time,
+// or a different parallelism than the target options. Lower parallelism is not weaker, but it
+// is tuned to the hashing host, so it is treated as a change too.
+export function needsRehash(encodedHash: string, options: Options): boolean {
+    const target = _.extend({}, defaults, options);
+    const current = getHashParameters(encodedHash);
+
+    return current.type !== target.type ||
+        current.version < argon2Version ||
+        current.memoryCost < target.memoryCost ||
+        current.timeCost < target.timeCost ||
+        current.parallelism !== target.parallelism;
+}
+
+// An encoded hash taken apart, so it can be stored some other way and put back together
+export interface HashRecord extends HashParameters {
+    salt: Buffer;
+    hash: Buffer;
+}
+
+// Converts hashes between the PHC string format that hash() returns and verify() takes,
+// $argon2id$v=19$m=65536,t=3,p=4$salt$hash, and a compact binary format for storage where
+// space is tight. Both hold the same fields, so a hash converts back and forth losslessly.
+export namespace HashRecord {
+    // Version byte, then type, argon2 version, memory in KiB, time cost and parallelism,
+    // then the salt length, salt and hash. Numbers are big endian.
+    export const compactVersion: number = 1;
+    const compactHeaderLength = 15;
+
+    const recordPattern = /^\$(argon2(?:d|i|id))(?:\$v=(\d+))?\$m=(\d+),t=(\d+),p=(\d+)\$([A-Za-z0-9+/]+)\$([A-Za-z0-9+/]+)$/;
+
+    function toBase64(buffer: Buffer): string {
+        return buffer.toString("base64").replace(/=+$/, "");
+    }
+
+    export function parse(encodedHash: string): HashRecord {
+        const match = recordPattern.exec(encodedHash || "");
+        if (!match) {
+            throw new Error("Argument error. Unrecognized hash format.");
+        }
+
+        return _.extend(getHashParameters(encodedHash), {
+            salt: Buffer.from(match[6], "base64"),
+            hash: Buffer.from(match[7], "base64")
+        });
+    }
+
+    // Version 16 hashes are written without the version field, the way argon2 wrote them
+    export function format(record: HashRecord): string {
+        const type = _.findKey(typeNames, t => t === record.type);
+        if (!type) {
+            throw new Error(`Argument error. Unknown type ${record.type}.`);
+        }
+
+        const version = record.version === 16 ? "" : `$v=${record.version}`;
+        return `$${type}${version}$m=${Math.round(Math.pow(2, record.memoryCost))},t=${record.timeCost},` +
+            `p=${record.parallelism}$${toBase64(record.salt)}$${toBase64(record.hash)}`;
+    }
+
+    // For the bare hash that argon2 returns with raw set, so it can be stored with its salt and options
+    export function create(hash: Buffer, salt: Buffer, options: Options): HashRecord {
+        const opts = _.extend({}, defaults, options);
+        return {
+            type: opts.type,
+            version: argon2Version,
+            memoryCost: opts.memoryCost,
+            timeCost: opts.timeCost,
+            parallelism: opts.parallelism,
+            salt: salt,
+            hash: hash
+        };
+    }
+
+    // Hashes with raw set, since hash() is typed for the encoded string, and keeps the salt and options with it
+    export async function hash(plain: Buffer | string, salt: Buffer, options?: Options): Promise<HashRecord> {
+        const rawHash: Buffer = await argon2lib.hash(plain, toArgon2Options(_.extend({}, options, { raw: true }), salt));
+        return create(rawHash, salt, options);
+    }
+
+    export function toBuffer(record: HashRecord): Buffer {
+        if (record.salt.length > 0xFFFF) {
+            throw new Error("Argument error. The salt is too long for the compact format.");
+        }
+
+        const header = Buffer.alloc(compactHeaderLength);
+        header.writeUInt8(compactVersion, 0);
+        header.writeUInt8(record.type, 1);
+        header.writeUInt8(record.version, 2);
+        header.writeUInt32BE(Math.round(Math.pow(2, record.memoryCost)), 3);
+        header.writeUInt32BE(record.timeCost, 7);
+        header.writeUInt32BE(record.parallelism, 11);
+
+        const saltLength = Buffer.alloc(2);
+        saltLength.writeUInt16BE(record.salt.length, 0);
+
+        return Buffer.concat([header, saltLength, record.salt, record.hash]);
+    }
+
+    export function fromBuffer(buffer: Buffer): HashRecord {
+        if (!buffer || buffer.length < compactHeaderLength + 2) {
+            throw new Error("Argument error. Compact hash is too short.");
+        }
+
+        const version = buffer.readUInt8(0);
+        if (version !== compactVersion) {
+            throw new Error(`Argument error. Unsupported compact hash version ${version}.`);
+        }
+
+        const saltEnd = compactHeaderLength + 2 + buffer.readUInt16BE(compactHeaderLength);
+        if (buffer.length <= saltEnd) {
+            throw new Error("Argument error. Compact hash is too short.");
+        }
+
+        return {
+            type: buffer.readUInt8(1),
+            version: buffer.readUInt8(2),
+            memoryCost: Math.log2(buffer.readUInt32BE(3)),
+            timeCost: buffer.readUInt32BE(7),
+            parallelism: buffer.readUInt32BE(11),
+            salt: Buffer.from(buffer.slice(compactHeaderLength + 2, saltEnd)),
+            hash: Buffer.from(buffer.slice(saltEnd))
+        };
+    }
+
+    export function compact(encodedHash: string): Buffer {
+        return toBuffer(parse(encodedHash));
+    }
+
+    export function expand(compactHash: Buffer): string {
+        return format(fromBuffer(compactHash));
+    }
+}
+
+export namespace Backend {
+    // What the timing strategies hash with
+    export interface HashBackend {
+        name: string;
+        // Hash once and resolve with how long it took in ms
+        timeHash(plain: Buffer | string, salt: Buffer, options: Options): Promise<number>;
+    }
+
+    export class NativeBackend implements HashBackend {
+        name: string = "argon2";
+
+        async timeHash(plain: Buffer | string, salt: Buffer, options: Options): Promise<number> {
+            const startHrtime = process.hrtime();
+            await hash(plain, salt, options);
+            const elapsedHrtime = process.hrtime(startHrtime);
+
+            return elapsedHrtime[0] * 1e3 + elapsedHrtime[1] / 1e6;
+        }
+    }
+
+    export interface SimulatedCostModel {
+        // Compute time is interceptMs + msPerWorkUnit * 2^memoryCost * timeCost / min(parallelism, cpuCount)
+        interceptMs?: number;
+        msPerWorkUnit?: number;
+        cpuCount?: number;
+        // Standard deviation of the noise, as a fraction of the compute time
+        noise?: number;
+        seed?: number;
+    }
+
+    // Doesn't hash at all. Compute times come from the cost model, with noise from a seeded random
+    // number generator, so the same calls in the same order always get the same times.
+    export class SimulatedBackend implements HashBackend {
+        name: string = "simulated";
+        readonly model: SimulatedCostModel;
+        private state: number;
+
+        constructor(model: SimulatedCostModel = {}) {
+            this.model = _.extend({ interceptMs: 1, msPerWorkUnit: 0.001, cpuCount: 4, noise: 0, seed: 1 }, model);
+            this.state = Math.floor(Math.abs(this.model.seed)) % 2147483646 + 1;
+        }
+
+        getComputeTimeMs(options: Options): number {
+            const opts = _.extend({}, defaults, options);
+            const model = this.model;
+            return model.interceptMs +
+                model.msPerWorkUnit * Math.pow(2, opts.memoryCost) * opts.timeCost / Math.min(opts.parallelism, model.cpuCount);
+        }
+
+        timeHash(plain: Buffer | string, salt: Buffer, options: Options): Promise<number> {
+            // Box-Muller, for normally distributed noise
+            const gaussian = Math.sqrt(-2 * Math.log(1 - this.random())) * Math.cos(2 * Math.PI * this.random());
+            const ms = this.getComputeTimeMs(options) * (1 + this.model.noise * gaussian);
+
+            return Promise.resolve(Math.max(ms, 0));
+        }
+
+        // Park-Miller, from 0 up to but not including 1
+        private random(): number {
+            this.state = this.state * 16807 % 2147483647;
+            return (this.state - 1) / 2147483646;
+        }
+    }
+
+    export const native: HashBackend = new NativeBackend();
+}
+
+export namespace Resources {
+    export interface ResourceLimits {
+        memoryBytes: number;
+        cpuCount: number;
+    }
+
+    function readCgroupFile(cgroupRoot: string, file: string): string {
+        try {
+            return fs.readFileSync(`${cgroupRoot}/${file}`, "utf8").trim();
+        } catch (e) {
+            return undefined;
+        }
+    }
+
+    function parseLimit(value: string): number {
+        const limit = value === undefined ? NaN : Number(value);
+        return limit > 0 ? limit : Infinity;
+    }
+
+    // The memory limit for this process's cgroup, v2 first then v1. Infinity when there is none.
+    export function getCgroupMemoryLimit(cgroupRoot: string = "/sys/fs/cgroup"): number {
+        const v2 = readCgroupFile(cgroupRoot, "memory.max");
+        if (v2 !== undefined) {
+            return parseLimit(v2);
+        }
+
+        return parseLimit(readCgroupFile(cgroupRoot, "memory/memory.limit_in_bytes"));
+    }
+
+    // The memory this process's cgroup is using, v2 first then v1. 0 when there is no cgroup.
+    export function getCgroupMemoryUsage(cgroupRoot: string = "/sys/fs/cgroup"): number {
+        const usage = readCgroupFile(cgroupRoot, "memory.current");
+        const value = Number(usage === undefined ? readCgroupFile(cgroupRoot, "memory/memory.usage_in_bytes") : usage);
+        return value > 0 ? value : 0;
+    }
+
+    // The number of CPUs this process's cgroup quota allows, v2 first then v1. Infinity when there is none.
+    export function getCgroupCpuLimit(cgroupRoot: string = "/sys/fs/cgroup"): number {
+        let quota: number;
+        let period: number;
+
+        const v2 = readCgroupFile(cgroupRoot, "cpu.max");
+        if (v2 !== undefined) {
+            const parts = v2.split(/\s+/);
+            quota = parseLimit(parts[0]);
+            period = parseLimit(parts[1]);
+        } else {
+            quota = parseLimit(readCgroupFile(cgroupRoot, "cpu/cpu.cfs_quota_us"));
+            period = parseLimit(readCgroupFile(cgroupRoot, "cpu/cpu.cfs_period_us"));
+        }
+
+        if (quota === Infinity || period === Infinity) {
+            return Infinity;
+        }
+
+        return Math.max(Math.ceil(quota / period), 1);
+    }
+
+    // What this process can actually use, which in a container is often less than the host has
+    export function getResourceLimits(cgroupRoot: string = "/sys/fs/cgroup"): ResourceLimits {
+        return {
+            memoryBytes: Math.min(os.totalmem(), getCgroupMemoryLimit(cgroupRoot)),
+            cpuCount: Math.min(os.cpus().length, getCgroupCpuLimit(cgroupRoot))
+        };
+    }
+
+    // The memory free right now: what the host has free, capped by what is left under the cgroup limit
+    export function getAvailableMemory(cgroupRoot: string = "/sys/fs/cgroup"): number {
+        const cgroupFree = getCgroupMemoryLimit(cgroupRoot) - getCgroupMemoryUsage(cgroupRoot);
+        return Math.max(Math.min(os.freemem(), cgroupFree), 0);
+    }
+}
+
 export namespace Measurement {
+    export interface TimingStats {
+        samplesMs: number[];
+        minMs: number;
+        medianMs: number;
+        p95Ms: number;
+        stdDevMs: number;
+    }
+
     export interface Timing {
         options: Options;
+        // The median of the samples when more than one hash was timed
         computeTimeMs: number;
         hashCost: number;
+        stats?: TimingStats;
+        // Completed hashes per second across all of the concurrent hashes
+        hashesPerSecond?: number;
     }
 
+    // "aborted" by the cancellation token, over the calibration "budget",
+    // or cancelled by the status "callback"
+    export type StopReason = "aborted" | "budget" | "callback";
+
     export interface TimingResult {
         timings: Timing[];
+        // Set when the run was stopped before the strategy was done, so the timings are partial
+        incomplete?: boolean;
+        stopReason?: StopReason;
+    }
+
+    // An AbortSignal works here
+    export interface CancellationToken {
+        aborted: boolean;
     }
 
     export interface TimingOptions {
@@ -75,7 +437,135 @@ export namespace Measurement {
         type?: number;
         saltLength?: number;
         plain?: string;
+        // How many hashes to time for each set of options
+        samples?: number;
+        // How many hashes to run at once, to time them under the load you expect at peak
+        concurrency?: number;
+        // Caps on top of the detected container and host limits
+        maxMemoryBytes?: number;
+        maxParallelism?: number;
+        // Stop early, between hashes, when this is aborted or after this much wall clock time
+        signal?: CancellationToken;
+        maxCalibrationMs?: number;
+        // Defaults to native argon2
+        backend?: Backend.HashBackend;
         statusCallback?: (timing: Timing) => boolean;
+        eventCallback?: (event: CalibrationEvent) => void;
+    }
+
+    export interface CalibrationProgress {
+        strategy: string;
+        elapsedMs: number;
+        timingsCount: number;
+        // 0 to 1, estimated by the strategy
+        progress: number;
+        // Estimated time left, undefined until there is some progress to go on
+        etaMs?: number;
+    }
+
+    export interface StartEvent extends CalibrationProgress {
+        type: "start";
+        startingOptions: Options;
+    }
+
+    export interface WarmupEvent extends CalibrationProgress {
+        type: "warmup";
+        iteration: number;
+        iterations: number;
+    }
+
+    export interface TimingEvent extends CalibrationProgress {
+        type: "timing";
+        timing: Timing;
+    }
+
+    export interface StrategyDecisionEvent extends CalibrationProgress {
+        type: "strategy-decision";
+        // The options that will be timed next, undefined when the strategy is done
+        nextOptions?: Options;
+        done: boolean;
+    }
+
+    export interface DoneEvent extends CalibrationProgress {
+        type: "done";
+        result: TimingResult;
+    }
+
+    export interface AbortedEvent extends CalibrationProgress {
+        type: "aborted";
+        reason: StopReason;
+        result: TimingResult;
+    }
+
+    export type CalibrationEvent = StartEvent | WarmupEvent | TimingEvent | StrategyDecisionEvent | DoneEvent | AbortedEvent;
+
+    // The parts of Prometheus (prom-client) counters and histograms we use
+    export interface MetricsCounter {
+        inc(value?: number): void;
+    }
+
+    export interface MetricsHistogram {
+        observe(value: number): void;
+    }
+
+    export interface CalibrationMetrics {
+        calibrations?: MetricsCounter;
+        calibrationsAborted?: MetricsCounter;
+        calibrationDurationMs?: MetricsHistogram;
+        timings?: MetricsCounter;
+        timingComputeMs?: MetricsHistogram;
+    }
+
+    // An eventCallback that records calibrations in your metrics system
+    export function createMetricsCallback(metrics: CalibrationMetrics): (event: CalibrationEvent) => void {
+        return event => {
+            switch (event.type) {
+                case "start":
+                    return metrics.calibrations && metrics.calibrations.inc();
+                case "timing":
+                    if (metrics.timings) {
+                        metrics.timings.inc();
+                    }
+                    return metrics.timingComputeMs && metrics.timingComputeMs.observe(event.timing.computeTimeMs);
+                case "aborted":
+                    if (metrics.calibrationsAborted) {
+                        metrics.calibrationsAborted.inc();
+                    }
+                    return metrics.calibrationDurationMs && metrics.calibrationDurationMs.observe(event.elapsedMs);
+                case "done":
+                    return metrics.calibrationDurationMs && metrics.calibrationDurationMs.observe(event.elapsedMs);
+                default:
+                    return;
+            }
+        };
+    }
+
+    // Linear interpolation between the closest ranks, percentile is 0 to 100
+    export function percentile(samplesMs: number[], percentile: number): number {
+        const sorted = _.sortBy(samplesMs);
+        const rank = Math.min(Math.max(percentile, 0), 100) / 100 * (sorted.length - 1);
+        const lower = Math.floor(rank);
+        const upper = Math.ceil(rank);
+
+        return sorted[lower] + (sorted[upper] - sorted[lower]) * (rank - lower);
+    }
+
+    export function getTimingStats(samplesMs: number[]): TimingStats {
+        const mean = _.mean(samplesMs);
+        const variance = _.mean(_.map(samplesMs, ms => Math.pow(ms - mean, 2)));
+
+        return {
+            samplesMs: samplesMs,
+            minMs: _.min(samplesMs),
+            medianMs: percentile(samplesMs, 50),
+            p95Ms: percentile(samplesMs, 95),
+            stdDevMs: Math.sqrt(variance)
+        };
+    }
+
+    function elapsedMs(startHrtime: [number, number]): number {
+        const elapsedHrtime = process.hrtime(startHrtime);
+        return elapsedHrtime[0] * 1e3 + elapsedHrtime[1] / 1e6;
     }
 
     export interface TimingStrategy {
@@ -90,12 +580,15 @@ export namespace Measurement {
         startingOptions: Options;
         data: any;
         pendingResult: TimingResult;
+        startHrtime?: [number, number];
+        progress?: number;
     }
 
     export abstract class TimingStrategyBase implements TimingStrategy {
         name: string;
 
         async run(options: TimingOptions): Promise<TimingResult> {
+            const startHrtime = process.hrtime();
             let opts = _.clone(defaults);
             opts.type = options.type;
 
@@ -107,10 +600,13 @@ export namespace Measurement {
                 timingOptions: options,
                 pendingResult: {
                     timings: []
-                }
+                },
+                startHrtime: startHrtime,
+                progress: 0
             };
 
             this.onBeforeStart(context);
+            this.emitEvent(context, { ...this.getProgress(context), type: "start", startingOptions: _.clone(opts) });
 
             // We'll mutate these options, so we clone them to not affect the startingOptions
             opts = _.clone(opts);
@@ -119,43 +615,159 @@ export namespace Measurement {
 
             // Warm up so testing is a tad more accurate
             for (let i = 0; i < 3; i++) {
-                await hash(options.plain, salt, opts);
+                if (this.stopIfRequested(context, startHrtime)) {
+                    return this.finish(context);
+                }
+                this.emitEvent(context, { ...this.getProgress(context), type: "warmup", iteration: i + 1, iterations: 3 });
+                await this.timeHash(context, salt, opts);
             }
 
+            const samples = Math.max(options.samples || 1, 1);
+            const concurrency = Math.max(options.concurrency || 1, 1);
             let lastTiming: Timing;
 
             do {
-                const startHrtime = process.hrtime();
-                await hash(options.plain, salt, opts);
-                const elapsedHrtime = process.hrtime(startHrtime);
+                // Each round starts every concurrent hash at once, and each of them is a sample
+                const samplesMs: number[] = [];
+                let wallTimeMs = 0;
+                for (let i = 0; i < samples; i++) {
+                    // Stopping part way through the samples still keeps the ones we have
+                    if (this.stopIfRequested(context, startHrtime)) {
+                        break;
+                    }
+
+                    const roundHrtime = process.hrtime();
+                    const roundMs = await Promise.all(_.times(concurrency, () => this.timeHash(context, salt, opts)));
+
+                    // A round can't take less time than its slowest hash says it did, which matters for simulated hashes
+                    wallTimeMs += Math.max(elapsedMs(roundHrtime), _.max(roundMs));
+                    samplesMs.push(...roundMs);
+                }
 
-                const msElapsed = elapsedHrtime[0] * 1e3 + elapsedHrtime[1] / 1e6;
-                context.accumulatedTimeMs += msElapsed;
+                context.accumulatedTimeMs += wallTimeMs;
+                if (!samplesMs.length) {
+                    break;
+                }
 
+                const stats = getTimingStats(samplesMs);
                 lastTiming = {
-                    computeTimeMs: msElapsed,
+                    computeTimeMs: stats.medianMs,
                     options: _.clone(opts),
-                    hashCost: opts.memoryCost * opts.parallelism * opts.timeCost
+                    hashCost: opts.memoryCost * opts.parallelism * opts.timeCost,
+                    stats: stats,
+                    hashesPerSecond: samplesMs.length / (wallTimeMs / 1e3)
                 };
 
                 context.pendingResult.timings.push(lastTiming);
+                context.progress = Math.max(context.progress, Math.min(this.estimateProgress(context, lastTiming), 1));
+                this.emitEvent(context, { ...this.getProgress(context), type: "timing", timing: lastTiming });
 
                 // Allow the callback to cancel the process if it feels the urge
                 if (options.statusCallback && !options.statusCallback(lastTiming)) {
+                    this.stop(context, "callback");
+                    break;
+                }
+
+                if (context.pendingResult.incomplete) {
                     break;
                 }
 
                 // Allow the implementation to stop the test run when updating options
-                if (!this.applyNextOptions(context, lastTiming, opts)) {
+                const proceed = this.applyNextOptions(context, lastTiming, opts);
+                const done = !proceed || this.isDone(context, lastTiming);
+                this.emitEvent(context, {
+                    ...this.getProgress(context),
+                    type: "strategy-decision",
+                    nextOptions: done ? undefined : _.clone(opts),
+                    done: done
+                });
+
+                if (!proceed) {
                     break;
                 }
 
             } while (!this.isDone(context, lastTiming));
 
-            return context.pendingResult;
+            return this.finish(context);
+        }
+
+        // How far along the run is, from 0 to 1. By default, how close the slowest timing came to maxTimeMs.
+        estimateProgress(context: TimingContext, lastTiming: Timing): number {
+            return lastTiming.computeTimeMs / context.timingOptions.maxTimeMs;
+        }
+
+        getProgress(context: TimingContext): CalibrationProgress {
+            const elapsed = elapsedMs(context.startHrtime);
+            const progress = context.progress || 0;
+            let etaMs = progress >= 1 ? 0 : progress > 0 ? elapsed * (1 - progress) / progress : undefined;
+
+            if (context.timingOptions.maxCalibrationMs !== undefined) {
+                const remainingMs = Math.max(context.timingOptions.maxCalibrationMs - elapsed, 0);
+                etaMs = etaMs === undefined ? remainingMs : Math.min(etaMs, remainingMs);
+            }
+
+            return {
+                strategy: this.name,
+                elapsedMs: elapsed,
+                timingsCount: context.pendingResult.timings.length,
+                progress: progress,
+                etaMs: etaMs
+            };
+        }
+
+        emitEvent(context: TimingContext, event: CalibrationEvent): void {
+            if (context.timingOptions.eventCallback) {
+                context.timingOptions.eventCallback(event);
+            }
+        }
+
+        finish(context: TimingContext): TimingResult {
+            const result = context.pendingResult;
+            if (result.incomplete) {
+                this.emitEvent(context, { ...this.getProgress(context), type: "aborted", reason: result.stopReason, result: result });
+            } else {
+                context.progress = 1;
+                this.emitEvent(context, { ...this.getProgress(context), type: "done", result: result });
+            }
+
+            return result;
         }
 
         abstract onBeforeStart(context: TimingContext): void;
+
+        stop(context: TimingContext, reason: StopReason): void {
+            context.pendingResult.incomplete = true;
+            context.pendingResult.stopReason = reason;
+        }
+
+        // Checked before every hash, since a hash that has started can't be stopped
+        stopIfRequested(context: TimingContext, startHrtime: [number, number]): boolean {
+            const options = context.timingOptions;
+            if (options.signal && options.signal.aborted) {
+                this.stop(context, "aborted");
+            } else if (options.maxCalibrationMs !== undefined && elapsedMs(startHrtime) >= options.maxCalibrationMs) {
+                this.stop(context, "budget");
+            }
+
+            return !!context.pendingResult.incomplete;
+        }
+
+        // Sets the parallelism and the max memory cost from what this process is allowed to use.
+        // Memory is split between the hashes that run at once so they all fit together.
+        applyResourceLimits(context: TimingContext): void {
+            const resources = Resources.getResourceLimits();
+            const timingOptions = context.timingOptions;
+            const memoryBytes = Math.min(resources.memoryBytes, timingOptions.maxMemoryBytes || Infinity) /
+                Math.max(timingOptions.concurrency || 1, 1);
+
+            context.startingOptions.parallelism =
+                context.data.parallelism = Math.max(
+                    Math.min(resources.cpuCount * 2, timingOptions.maxParallelism || Infinity, limits.parallelism.max),
+                    limits.parallelism.min);
+            context.data.memoryCostMax = Math.min(
+                Math.floor(Math.log2(memoryBytes / 1024)),
+                limits.memoryCost.max);
+        }
         abstract applyNextOptions(context: TimingContext, lastTiming: Timing, options: Options): boolean;
 
         isDone(context: TimingContext, lastTiming: Timing): boolean {
@@ -165,19 +777,25 @@ export namespace Measurement {
         generateSalt(context: TimingContext): Promise<Buffer> {
             return generateSalt(context.timingOptions.saltLength);
         }
+
+        async timeHash(context: TimingContext, salt: Buffer, options: Options): Promise<number> {
+            const backend = context.timingOptions.backend || Backend.native;
+            const ms = await backend.timeHash(context.timingOptions.plain, salt, options);
+
+            // Otherwise a strategy would keep adding time, waiting for a hash to fit, until it runs out of memory
+            if (!isFinite(ms)) {
+                throw new Error(`The ${backend.name} backend timed a hash at ${ms}ms. Is memoryCost log2 of KiB?`);
+            }
+
+            return ms;
+        }
     }
 
     export class MaxMemoryMarchStrategy extends TimingStrategyBase {
         name: string = "maxmemory";
 
         onBeforeStart(context: TimingContext): void {
-            context.startingOptions.parallelism =
-                context.data.parallelism = Math.max(
-                    Math.min(os.cpus().length * 2, limits.parallelism.max),
-                    limits.parallelism.min);
-            context.data.memoryCostMax = Math.min(
-                Math.floor(Math.log2(os.totalmem() / 1024)),
-                limits.memoryCost.max);
+            this.applyResourceLimits(context);
         }
 
         applyNextOptions(context: TimingContext, lastTiming: Timing, options: Options): boolean {
@@ -200,13 +818,7 @@ export namespace Measurement {
         name: string = "closestmatch";
 
         onBeforeStart(context: TimingContext): void {
-            context.startingOptions.parallelism =
-                context.data.parallelism = Math.max(
-                    Math.min(os.cpus().length * 2, limits.parallelism.max),
-                    limits.parallelism.min);
-            context.data.memoryCostMax = Math.min(
-                Math.floor(Math.log2(os.totalmem() / 1024)),
-                limits.memoryCost.max);
+            this.applyResourceLimits(context);
             context.data.isDone = false;
             context.data.lastOvershot = false;
         }
@@ -224,7 +836,7 @@ export namespace Measurement {
                 }
 
                 // Increase memory and reduce timeCost to default to try next memory option.
-                if (options.memoryCost < limits.memoryCost.max) {
+                if (options.memoryCost < context.data.memoryCostMax) {
                     options.timeCost = context.startingOptions.timeCost;
                     options.memoryCost++;
                     context.data.lastOvershot = true;
@@ -249,66 +861,378 @@ export namespace Measurement {
         }
     }
 
-    export enum TimingStrategyType {
-        MaxMemoryMarch,
-        ClosestMatch
-    }
+    export class BisectionStrategy extends TimingStrategyBase {
+        name: string = "bisection";
 
-    export function getTimingStrategy(type: TimingStrategyType): TimingStrategy {
-        switch (type) {
-            case TimingStrategyType.ClosestMatch:
-                return new ClosestMatchStrategy();
-            case TimingStrategyType.MaxMemoryMarch:
-                return new MaxMemoryMarchStrategy();
-            default:
-                throw new Error("Unknown type.");
+        onBeforeStart(context: TimingContext): void {
+            this.applyResourceLimits(context);
+            context.data.isDone = false;
+            context.data.phase = "memoryCost";
+            context.data.lowest = undefined;
+            context.data.highest = undefined;
+            context.data.step = 1;
         }
-    }
 
-    export const defaultTimingStrategy: Measurement.TimingStrategy = new Measurement.ClosestMatchStrategy();
-    export const defaultTimingOptions: Measurement.TimingOptions = {
-            type: argon2i,
-            maxTimeMs: 100,
-            plain: "this is a super cool password",
-            saltLength: 16,
-            statusCallback: t => {
-                const ms = `Hashed in ${t.computeTimeMs}ms.`;
-                const hc = `Cost: ${t.hashCost}.`;
-                const pc = `P: ${t.options.parallelism}.`;
-                const mc = `M: ${t.options.memoryCost} (${Math.pow(2, t.options.memoryCost) / 1024}MB).`;
-                const tc = `T: ${t.options.timeCost}.`;
+        applyNextOptions(context: TimingContext, lastTiming: Timing, options: Options): boolean {
+            // Bracket the largest memoryCost that fits in maxTimeMs by growing the step each time we fit,
+            // then bisect the bracket. Once memory is settled, do the same for timeCost at that memory.
+            const data = context.data;
+            const phase: "memoryCost" | "timeCost" = data.phase;
+            const value: number = options[phase];
+
+            if (lastTiming.computeTimeMs <= context.timingOptions.maxTimeMs) {
+                data.lowest = value;
+            } else {
+                data.highest = value;
+            }
+
+            // Even the starting options are too slow, so there is nothing to search for.
+            if (data.lowest === undefined) {
+                return !(data.isDone = true);
+            }
+
+            const max: number = phase === "memoryCost" ? data.memoryCostMax : limits.timeCost.max;
+            let next: number;
 
-                console.log(`${ms} ${hc} ${pc} ${mc} ${tc}`);
+            if (data.highest === undefined) {
+                next = data.lowest < max ? Math.min(data.lowest + data.step, max) : undefined;
+                data.step *= 2;
+            } else if (data.highest - data.lowest > 1) {
+                next = Math.floor((data.lowest + data.highest) / 2);
+            }
 
+            if (next !== undefined) {
+                options[phase] = next;
                 return true;
             }
-        };
 
-    export function generateTimings(
-        options?: Measurement.TimingOptions,
-        timingStrategy?: Measurement.TimingStrategy): Promise<Measurement.TimingResult> {
+            if (phase === "timeCost") {
+                return !(data.isDone = true);
+            }
 
-        timingStrategy = timingStrategy || defaultTimingStrategy;
-        options = _.extend({}, defaultTimingOptions, options);
+            // Memory is settled. The lowest fitting memory was measured at the starting timeCost,
+            // so the time search starts from there.
+            options.memoryCost = data.lowest;
+            data.phase = "timeCost";
+            data.lowest = context.startingOptions.timeCost;
+            data.highest = undefined;
+            data.step = 1;
 
-        return timingStrategy.run(options);
-    }
-}
+            if (data.lowest >= limits.timeCost.max) {
+                return !(data.isDone = true);
+            }
 
-export namespace Selection {
-    import Timing = Measurement.Timing;
-    import TimingResult = Measurement.TimingResult;
+            options.timeCost = data.lowest + data.step;
+            data.step *= 2;
 
-    export interface SelectionStrategy {
-        initialize(timingResults: TimingResult): void;
-        select(maxTimeMs: number): Timing;
-        fastest(): Timing;
-        slowest(): Timing;
-        name: string;
-    }
+            return true;
+        }
 
-    export abstract class LinearSelectionStrategy implements SelectionStrategy {
-        name: string;
+        isDone(context: TimingContext, lastTiming: Timing): boolean {
+            return !!context.data.isDone;
+        }
+    }
+
+    export class ParallelismSearchStrategy extends TimingStrategyBase {
+        name: string = "parallelism";
+
+        onBeforeStart(context: TimingContext): void {
+            this.applyResourceLimits(context);
+
+            // Powers of two up to the parallelism we'd otherwise use, and that parallelism itself
+            const parallelisms: number[] = [];
+            for (let p = limits.parallelism.min; p < context.data.parallelism; p *= 2) {
+                parallelisms.push(p);
+            }
+            parallelisms.push(context.data.parallelism);
+
+            context.startingOptions.parallelism = parallelisms[0];
+            context.data.parallelisms = parallelisms;
+            context.data.parallelismIndex = 0;
+            context.data.phase = "memoryCost";
+            context.data.isDone = false;
+        }
+
+        applyNextOptions(context: TimingContext, lastTiming: Timing, options: Options): boolean {
+            // At each parallelism add memory until the timing threshold is reached,
+            // then add time at the most memory that fit until it is reached again.
+            const data = context.data;
+            const fits = lastTiming.computeTimeMs <= context.timingOptions.maxTimeMs;
+
+            if (data.phase === "memoryCost") {
+                if (fits && options.memoryCost < data.memoryCostMax) {
+                    options.memoryCost++;
+                    return true;
+                }
+
+                // The most memory that fit was timed at the starting timeCost, so move on to the next timeCost
+                const memoryCost = fits ? options.memoryCost : options.memoryCost - 1;
+                if (memoryCost >= context.startingOptions.memoryCost && options.timeCost < limits.timeCost.max) {
+                    data.phase = "timeCost";
+                    options.memoryCost = memoryCost;
+                    options.timeCost++;
+                    return true;
+                }
+            } else if (fits && options.timeCost < limits.timeCost.max) {
+                options.timeCost++;
+                return true;
+            }
+
+            if (++data.parallelismIndex >= data.parallelisms.length) {
+                return !(data.isDone = true);
+            }
+
+            data.phase = "memoryCost";
+            options.parallelism = data.parallelisms[data.parallelismIndex];
+            options.memoryCost = context.startingOptions.memoryCost;
+            options.timeCost = context.startingOptions.timeCost;
+
+            return true;
+        }
+
+        isDone(context: TimingContext, lastTiming: Timing): boolean {
+            return !!context.data.isDone;
+        }
+    }
+
+    export enum TimingStrategyType {
+        MaxMemoryMarch,
+        ClosestMatch,
+        Bisection,
+        ParallelismSearch
+    }
+
+    export function getTimingStrategy(type: TimingStrategyType): TimingStrategy {
+        switch (type) {
+            case TimingStrategyType.ClosestMatch:
+                return new ClosestMatchStrategy();
+            case TimingStrategyType.MaxMemoryMarch:
+                return new MaxMemoryMarchStrategy();
+            case TimingStrategyType.Bisection:
+                return new BisectionStrategy();
+            case TimingStrategyType.ParallelismSearch:
+                return new ParallelismSearchStrategy();
+            default:
+                throw new Error("Unknown type.");
+        }
+    }
+
+    // For when all we have is a strategy's name, like in another process
+    export function getTimingStrategyByName(name: string): TimingStrategy {
+        const strategies = [
+            new MaxMemoryMarchStrategy(),
+            new ClosestMatchStrategy(),
+            new BisectionStrategy(),
+            new ParallelismSearchStrategy()
+        ];
+
+        const strategy = _.find(strategies, s => s.name === name);
+        if (!strategy) {
+            throw new Error(`Unknown timing strategy "${name}".`);
+        }
+
+        return strategy;
+    }
+
+    export const defaultTimingStrategy: Measurement.TimingStrategy = new Measurement.ClosestMatchStrategy();
+    export const defaultTimingOptions: Measurement.TimingOptions = {
+            type: argon2i,
+            maxTimeMs: 100,
+            plain: "this is a super cool password",
+            saltLength: 16,
+            samples: 1
+        };
+
+    export function generateTimings(
+        options?: Measurement.TimingOptions,
+        timingStrategy?: Measurement.TimingStrategy): Promise<Measurement.TimingResult> {
+
+        timingStrategy = timingStrategy || defaultTimingStrategy;
+        options = _.extend({}, defaultTimingOptions, options);
+
+        return timingStrategy.run(options);
+    }
+}
+
+export namespace Policy {
+    import Timing = Measurement.Timing;
+
+    export interface SecurityPolicy {
+        minMemoryKiB?: number;
+        minTimeCost?: number;
+        minParallelism?: number;
+        allowedTypes?: number[];
+    }
+
+    // The OWASP minimum for argon2id, which is also within the RFC 9106 recommendations
+    export const recommended: SecurityPolicy = {
+        minMemoryKiB: 19456,
+        minTimeCost: 2,
+        minParallelism: 1,
+        allowedTypes: [argon2id]
+    };
+
+    export interface PolicyReport {
+        maxTimeMs: number;
+        policy: SecurityPolicy;
+        // What would have been selected without the policy, and how it falls short
+        selectedWithoutPolicy: Timing;
+        violations: string[];
+        // The fastest measured timing that meets the policy, if any. It takes longer than maxTimeMs.
+        fastestCompliant?: Timing;
+    }
+
+    export interface PolicyError extends Error {
+        code: "POLICY_UNSATISFIED";
+        report: PolicyReport;
+    }
+
+    // How the options fall short of the policy, empty when they meet it
+    export function getViolations(options: Options, policy: SecurityPolicy): string[] {
+        const opts = _.extend({}, defaults, options);
+        const violations: string[] = [];
+        if (!policy) {
+            return violations;
+        }
+
+        // Memory has to be given to meet a minimum. Anything that isn't a number fails, rather than passing.
+        const memoryKiB = Math.pow(2, options.memoryCost);
+        if (policy.minMemoryKiB !== undefined && !isFinite(memoryKiB)) {
+            violations.push(`Memory cost ${options.memoryCost} is not a power of two of KiB.`);
+        } else if (policy.minMemoryKiB !== undefined && memoryKiB < policy.minMemoryKiB) {
+            violations.push(`Memory ${memoryKiB}KiB is below the minimum of ${policy.minMemoryKiB}KiB.`);
+        }
+        if (policy.minTimeCost !== undefined && opts.timeCost < policy.minTimeCost) {
+            violations.push(`Time cost ${opts.timeCost} is below the minimum of ${policy.minTimeCost}.`);
+        }
+        if (policy.minParallelism !== undefined && opts.parallelism < policy.minParallelism) {
+            violations.push(`Parallelism ${opts.parallelism} is below the minimum of ${policy.minParallelism}.`);
+        }
+        if (policy.allowedTypes && !_.includes(policy.allowedTypes, opts.type)) {
+            violations.push(`Type ${opts.type} is not one of the allowed types ${policy.allowedTypes.join(", ")}.`);
+        }
+
+        return violations;
+    }
+
+    export function isCompliant(options: Options, policy: SecurityPolicy): boolean {
+        return !getViolations(options, policy).length;
+    }
+
+    export function createError(report: PolicyReport): PolicyError {
+        const err = <PolicyError> new Error(
+            `No measured timing meets the security policy in ${report.maxTimeMs}ms. ${report.violations.join(" ")}`);
+        err.code = "POLICY_UNSATISFIED";
+        err.report = report;
+        return err;
+    }
+}
+
+// Verifies only hashes whose parameters are within bounds. A tampered or imported hash with huge
+// memory, time or parallelism would otherwise tie up the verifying host, for minutes or all of its RAM.
+export namespace Guard {
+    export interface HashBounds {
+        maxMemoryKiB?: number;
+        maxTimeCost?: number;
+        maxParallelism?: number;
+        allowedTypes?: number[];
+    }
+
+    // Anything the native module would accept, which guards against nothing but malformed hashes
+    export const limitBounds: HashBounds = {
+        maxMemoryKiB: Math.pow(2, limits.memoryCost.max),
+        maxTimeCost: limits.timeCost.max,
+        maxParallelism: limits.parallelism.max
+    };
+
+    export type GuardErrorCode = "PASSWORD_MISMATCH" | "HASH_REJECTED";
+
+    export interface GuardError extends Error {
+        code: GuardErrorCode;
+        // Why the hash was rejected without verifying it. Empty for a mismatch.
+        violations: string[];
+    }
+
+    // Up to a multiple of the memory, time and parallelism of the options, such as getMaxOptions() gives
+    export function getBounds(options: Options, multiple: number = 2): HashBounds {
+        const opts = _.extend({}, defaults, options);
+        return {
+            maxMemoryKiB: Math.pow(2, opts.memoryCost) * multiple,
+            maxTimeCost: opts.timeCost * multiple,
+            maxParallelism: opts.parallelism * multiple
+        };
+    }
+
+    // How the hash is out of bounds, empty when it is within them
+    export function getViolations(encodedHash: string, bounds: HashBounds): string[] {
+        let parameters: HashParameters;
+        try {
+            parameters = getHashParameters(encodedHash);
+        } catch (e) {
+            return [e.message];
+        }
+
+        const violations: string[] = [];
+        const memoryKiB = getHashMemoryKiB(encodedHash);
+        if (bounds.maxMemoryKiB !== undefined && memoryKiB > bounds.maxMemoryKiB) {
+            violations.push(`Memory ${memoryKiB}KiB is above the maximum of ${bounds.maxMemoryKiB}KiB.`);
+        }
+        if (bounds.maxTimeCost !== undefined && parameters.timeCost > bounds.maxTimeCost) {
+            violations.push(`Time cost ${parameters.timeCost} is above the maximum of ${bounds.maxTimeCost}.`);
+        }
+        if (bounds.maxParallelism !== undefined && parameters.parallelism > bounds.maxParallelism) {
+            violations.push(`Parallelism ${parameters.parallelism} is above the maximum of ${bounds.maxParallelism}.`);
+        }
+        if (bounds.allowedTypes && !_.includes(bounds.allowedTypes, parameters.type)) {
+            violations.push(`Type ${parameters.type} is not one of the allowed types ${bounds.allowedTypes.join(", ")}.`);
+        }
+
+        return violations;
+    }
+
+    export function createError(code: GuardErrorCode, message: string, violations: string[] = []): GuardError {
+        const err = <GuardError> new Error(message);
+        err.code = code;
+        err.violations = violations;
+        return err;
+    }
+
+    // Resolves when the password matches. Rejects with a code of HASH_REJECTED, without verifying,
+    // when the hash is malformed or out of bounds, and with PASSWORD_MISMATCH when it doesn't match.
+    // There are no default bounds, since any default would either reject real hashes or allow hostile ones.
+    export async function verify(encodedHash: string, plain: Buffer | string, bounds: HashBounds): Promise<void> {
+        const violations = getViolations(encodedHash, bounds);
+        if (violations.length) {
+            throw createError("HASH_REJECTED", `Hash rejected without verifying. ${violations.join(" ")}`, violations);
+        }
+
+        if (!await argon2lib.verify(encodedHash, plain)) {
+            throw createError("PASSWORD_MISMATCH", "Password does not match.");
+        }
+    }
+}
+
+export namespace Selection {
+    import Timing = Measurement.Timing;
+    import TimingResult = Measurement.TimingResult;
+    import SecurityPolicy = Policy.SecurityPolicy;
+
+    export interface SelectionStrategy {
+        // Select on this percentile of each timing's samples instead of its computeTimeMs
+        percentile?: number;
+        // Only select timings that meet this policy. select() throws a PolicyError when none fit in the time.
+        policy?: SecurityPolicy;
+        initialize(timingResults: TimingResult): void;
+        select(maxTimeMs: number): Timing;
+        fastest(): Timing;
+        slowest(): Timing;
+        name: string;
+    }
+
+    export abstract class LinearSelectionStrategy implements SelectionStrategy {
+        name: string;
+        percentile: number;
+        policy: SecurityPolicy;
 
         private sortedTimings: Timing[];
         private timingsCache: { [ms: number]: Timing; } = { };
@@ -323,11 +1247,14 @@ export namespace Selection {
                     throw new Error("Argument error. No timings found.");
                 }
 
+            // Selections from earlier timings no longer apply
+            this.timingsCache = { };
+
             // Sort timings by memory and then elapsed ms
             // So the most memory expensive things will be first for selection
             this.sortedTimings = this.getSortedTimings(timingResults.timings);
 
-            const computeTimeList = _.sortBy(timingResults.timings, "computeTimeMs");
+            const computeTimeList = _.sortBy(timingResults.timings, timing => this.getTimeMs(timing));
             this.fastestTiming = _.head(computeTimeList);
             this.slowestTiming = _.last(computeTimeList);
         }
@@ -335,11 +1262,14 @@ export namespace Selection {
         select(maxTimeMs: number): Timing {
             const timing = this.timingsCache[maxTimeMs] ||
                 _.findLast(this.sortedTimings, timing => {
-                    return timing.computeTimeMs <= maxTimeMs;
+                    return this.getTimeMs(timing) <= maxTimeMs && Policy.isCompliant(timing.options, this.policy);
                 });
 
             // No options available...
             if (!timing) {
+                if (this.policy) {
+                    throw Policy.createError(this.getPolicyReport(maxTimeMs));
+                }
                 return this.fastest();
             }
 
@@ -348,6 +1278,29 @@ export namespace Selection {
             return timing;
         }
 
+        getPolicyReport(maxTimeMs: number): Policy.PolicyReport {
+            const selectedWithoutPolicy = _.findLast(this.sortedTimings, timing => this.getTimeMs(timing) <= maxTimeMs) ||
+                this.fastest();
+
+            return {
+                maxTimeMs: maxTimeMs,
+                policy: this.policy,
+                selectedWithoutPolicy: selectedWithoutPolicy,
+                violations: Policy.getViolations(selectedWithoutPolicy.options, this.policy),
+                fastestCompliant: _.minBy(
+                    _.filter(this.sortedTimings, timing => Policy.isCompliant(timing.options, this.policy)),
+                    timing => this.getTimeMs(timing))
+            };
+        }
+
+        getTimeMs(timing: Timing): number {
+            if (this.percentile === undefined || !timing.stats) {
+                return timing.computeTimeMs;
+            }
+
+            return Measurement.percentile(timing.stats.samplesMs, this.percentile);
+        }
+
         fastest(): Timing {
             return this.fastestTiming;
         }
@@ -362,7 +1315,7 @@ export namespace Selection {
 
         getSortedTimings(timings: Timing[]): Timing[] {
             return _.orderBy(timings,
-                ["hashCost", "computeTimeMs"],
+                ["hashCost", (timing: Timing) => this.getTimeMs(timing)],
                 ["asc", "asc"]);
         }
     }
@@ -371,69 +1324,1587 @@ export namespace Selection {
         name: string = "closestmatch";
 
         getSortedTimings(timings: Timing[]): Timing[] {
-            return _.sortBy(timings, "computeTimeMs");
+            return _.sortBy(timings, timing => this.getTimeMs(timing));
+        }
+    }
+
+    export class ParetoSelectionStrategy extends LinearSelectionStrategy {
+        name: string = "pareto";
+
+        // Only the timings that no other timing beats on memory, work and time at once
+        getSortedTimings(timings: Timing[]): Timing[] {
+            const frontier = _.filter(timings, timing => !_.some(timings, other => this.dominates(other, timing)));
+
+            return _.orderBy(frontier,
+                [(timing: Timing) => this.getWork(timing), "options.memoryCost", (timing: Timing) => this.getTimeMs(timing)],
+                ["asc", "asc", "desc"]);
+        }
+
+        // The memory is split across the lanes, so parallelism makes a hash faster, not stronger
+        getWork(timing: Timing): number {
+            return Math.pow(2, timing.options.memoryCost) * timing.options.timeCost;
+        }
+
+        dominates(timing: Timing, other: Timing): boolean {
+            const memoryCost = timing.options.memoryCost;
+            const otherMemoryCost = other.options.memoryCost;
+            const work = this.getWork(timing);
+            const otherWork = this.getWork(other);
+            const timeMs = this.getTimeMs(timing);
+            const otherTimeMs = this.getTimeMs(other);
+
+            return memoryCost >= otherMemoryCost && work >= otherWork && timeMs <= otherTimeMs &&
+                (memoryCost > otherMemoryCost || work > otherWork || timeMs < otherTimeMs);
         }
     }
 
     export enum SelectionStrategyType {
         MaxCost,
-        ClosestMatch
+        ClosestMatch,
+        Pareto
     }
 
-    export function getSelectionStrategy(type: SelectionStrategyType): SelectionStrategy {
+    export function getSelectionStrategy(
+            type: SelectionStrategyType,
+            percentile?: number,
+            policy?: SecurityPolicy): SelectionStrategy {
+
+        let strategy: SelectionStrategy;
         switch (type) {
             case SelectionStrategyType.ClosestMatch:
-                return new ClosestMatchSelectionStrategy();
+                strategy = new ClosestMatchSelectionStrategy();
+                break;
             case SelectionStrategyType.MaxCost:
-                return new MaxCostSelectionStrategy();
+                strategy = new MaxCostSelectionStrategy();
+                break;
+            case SelectionStrategyType.Pareto:
+                strategy = new ParetoSelectionStrategy();
+                break;
             default:
                 throw new Error("Unknown type.");
         }
+
+        strategy.percentile = percentile;
+        strategy.policy = policy;
+        return strategy;
     }
 }
 
-import TimingStrategyType = Measurement.TimingStrategyType;
-import TimingStrategy = Measurement.TimingStrategy;
-import SelectionStrategyType = Selection.SelectionStrategyType;
-import SelectionStrategy = Selection.SelectionStrategy;
+export namespace Model {
+    import Timing = Measurement.Timing;
+    import TimingResult = Measurement.TimingResult;
 
-const optionsCache: { [key: string]: Options; } = { };
-function optionsCacheKey(maxMs: number = Measurement.defaultTimingOptions.maxTimeMs,
-        timingStrategy: string,
-        selectionStrategy: string): string {
-            return `${maxMs}:${timingStrategy}:${selectionStrategy}`;
+    // How much work a hash is: memory in KiB times passes, spread across the lanes
+    export function getWorkUnits(options: Options): number {
+        const opts = _.extend({}, defaults, options);
+        return Math.pow(2, opts.memoryCost) * opts.timeCost / opts.parallelism;
+    }
+
+    // A straight line through the measured compute times against the work units of each hash,
+    // so the compute time of options that were never measured can be predicted
+    export class CostModel {
+        readonly interceptMs: number;
+        readonly msPerWorkUnit: number;
+        // The timing with the highest cost, which predictions take their parallelism and type from
+        readonly template: Options;
+        readonly minMemoryCost: number;
+        readonly maxMemoryCost: number;
+
+        constructor(interceptMs: number, msPerWorkUnit: number, timings: Timing[]) {
+            this.interceptMs = interceptMs;
+            this.msPerWorkUnit = msPerWorkUnit;
+            this.template = _.maxBy(timings, "hashCost").options;
+            this.minMemoryCost = _.min(_.map(timings, t => t.options.memoryCost));
+            this.maxMemoryCost = _.max(_.map(timings, t => t.options.memoryCost));
+        }
+
+        predict(options: Options): number {
+            return this.interceptMs + this.msPerWorkUnit * getWorkUnits(options);
+        }
+
+        // How long a stored hash will take to verify here, without verifying it
+        estimateVerifyMs(encodedHash: string): number {
+            return this.predict(getHashParameters(encodedHash));
+        }
+
+        // The most memory, and then the most time, predicted to fit in maxTimeMs.
+        // Memory stays within what was measured, so this never asks for more RAM than calibration did.
+        // When nothing fits, the cheapest options are returned with a computeTimeMs over maxTimeMs.
+        select(maxTimeMs: number, template: Options = this.template): Timing {
+            const opts = _.extend({}, defaults, template);
+            const workUnits = (maxTimeMs - this.interceptMs) / this.msPerWorkUnit;
+
+            for (let memoryCost = this.maxMemoryCost; memoryCost >= this.minMemoryCost; memoryCost--) {
+                const timeCost = Math.min(Math.floor(workUnits * opts.parallelism / Math.pow(2, memoryCost)), limits.timeCost.max);
+                if (timeCost >= limits.timeCost.min) {
+                    return this.getTiming(_.extend({}, opts, { memoryCost: memoryCost, timeCost: timeCost }));
+                }
+            }
+
+            return this.getTiming(_.extend({}, opts, { memoryCost: this.minMemoryCost, timeCost: limits.timeCost.min }));
+        }
+
+        private getTiming(options: Options): Timing {
+            return {
+                options: options,
+                computeTimeMs: this.predict(options),
+                hashCost: options.memoryCost * options.parallelism * options.timeCost
+            };
+        }
+    }
+
+    // Least squares fit. When the times don't go up with the work, which happens when they are
+    // all about the same, the line goes through zero instead.
+    export function fit(timingResults: TimingResult): CostModel {
+        if (!timingResults || !timingResults.timings ||
+            !timingResults.timings.length) {
+                throw new Error("Argument error. No timings found.");
+            }
+
+        const timings = timingResults.timings;
+        const xs = _.map(timings, t => getWorkUnits(t.options));
+        const ys = _.map(timings, t => t.computeTimeMs);
+        const meanX = _.mean(xs);
+        const meanY = _.mean(ys);
+
+        let covariance = 0;
+        let variance = 0;
+        for (let i = 0; i < xs.length; i++) {
+            covariance += (xs[i] - meanX) * (ys[i] - meanY);
+            variance += Math.pow(xs[i] - meanX, 2);
+        }
+
+        const slope = variance ? covariance / variance : 0;
+        if (slope > 0) {
+            return new CostModel(meanY - slope * meanX, slope, timings);
+        }
+
+        const sumXY = _.sum(_.map(xs, (x, i) => x * ys[i]));
+        const sumXX = _.sum(_.map(xs, x => x * x));
+        return new CostModel(0, sumXY / sumXX, timings);
+    }
+
+    // Hash once with the options of a predicted timing to see how long it really takes
+    export async function confirm(
+            timing: Timing,
+            plain: string = Measurement.defaultTimingOptions.plain,
+            backend: Backend.HashBackend = Backend.native): Promise<Timing> {
+
+        const salt = await generateSalt(Measurement.defaultTimingOptions.saltLength);
+        const computeTimeMs = await backend.timeHash(plain, salt, timing.options);
+
+        return _.extend({}, timing, { computeTimeMs: computeTimeMs });
+    }
 }
 
-export async function getMaxOptionsWithStrategies(
-        maxMs: number = Measurement.defaultTimingOptions.maxTimeMs,
-        timingStrategy: Measurement.TimingStrategy,
-        selectionStrategy: SelectionStrategy
-    ): Promise<Options> {
+export namespace Profile {
+    import TimingResult = Measurement.TimingResult;
 
-    const cacheKey = optionsCacheKey(maxMs, timingStrategy.name, selectionStrategy.name);
-    let options = optionsCache[cacheKey];
-    if (options) {
-        return options;
+    export interface HostFingerprint {
+        cpuModel: string;
+        cpuCount: number;
+        totalMemory: number;
+        argon2Version: string;
+        type: number;
+        timingStrategy: string;
+        selectionStrategy: string;
+        concurrency: number;
+        // What this process may use, from the cgroup and the maxMemoryBytes and maxParallelism caps
+        memoryLimitBytes: number;
+        cpuLimit: number;
     }
 
-    const timings = await Measurement.generateTimings({ maxTimeMs: maxMs }, timingStrategy);
-    selectionStrategy.initialize(timings);
+    export interface CalibrationProfile {
+        fingerprint: HostFingerprint;
+        maxTimeMs: number;
+        createdAt: string;
+        timingResult: TimingResult;
+    }
+
+    export function getFingerprint(
+            type: number,
+            timingStrategy: string,
+            selectionStrategy: string,
+            concurrency: number = 1,
+            maxMemoryBytes?: number,
+            maxParallelism?: number): HostFingerprint {
+
+        const cpus = os.cpus();
+        const resources = Resources.getResourceLimits();
+        return {
+            cpuModel: cpus.length ? cpus[0].model : "unknown",
+            cpuCount: cpus.length,
+            totalMemory: os.totalmem(),
+            argon2Version: require("argon2/package.json").version,
+            type: type,
+            timingStrategy: timingStrategy,
+            selectionStrategy: selectionStrategy,
+            concurrency: concurrency,
+            memoryLimitBytes: Math.min(resources.memoryBytes, maxMemoryBytes || Infinity),
+            cpuLimit: Math.min(resources.cpuCount, maxParallelism || Infinity)
+        };
+    }
+
+    // A profile is only usable if it was measured on the same kind of host, with the same
+    // strategies, and explored at least as far as the time we are asking for now.
+    export function isValid(profile: CalibrationProfile, fingerprint: HostFingerprint, maxTimeMs: number): boolean {
+        return !!profile && !!profile.timingResult &&
+            _.isEqual(profile.fingerprint, fingerprint) &&
+            profile.maxTimeMs >= maxTimeMs;
+    }
+
+    export function load(path: string): Promise<CalibrationProfile> {
+        return new Promise((resolve, reject) => {
+            fs.readFile(path, "utf8", (err, data) => {
+                if (err) {
+                    // A missing profile just means we haven't calibrated yet
+                    return err.code === "ENOENT" ? resolve(undefined) : reject(err);
+                }
 
-    const selectedTiming = selectionStrategy.select(maxMs);
-    optionsCache[cacheKey] = options = selectedTiming.options;
+                try {
+                    resolve(JSON.parse(data));
+                } catch (e) {
+                    // A corrupt profile is thrown away and re-measured
+                    resolve(undefined);
+                }
+            });
+        });
+    }
 
-    return options;
+    export function save(path: string, profile: CalibrationProfile): Promise<void> {
+        return new Promise<void>((resolve, reject) => {
+            fs.writeFile(path, JSON.stringify(profile, null, 2), "utf8", err => {
+                if (err) {
+                    return reject(err);
+                }
+                resolve();
+            });
+        });
+    }
 }
 
-export async function getMaxOptions(
-        maxMs: number = Measurement.defaultTimingOptions.maxTimeMs,
-        timingStrategy: TimingStrategyType = TimingStrategyType.ClosestMatch,
-        selectionStrategy: SelectionStrategyType = SelectionStrategyType.MaxCost
-    ): Promise<Options> {
+// Runs calibration in a worker thread or a child process, so the GBs argon2 allocates don't
+// skew the app's heap and event loop while it measures, and are all given back when it's done.
+export namespace Isolation {
+    import TimingOptions = Measurement.TimingOptions;
+    import TimingResult = Measurement.TimingResult;
 
-    return getMaxOptionsWithStrategies(
-        maxMs,
-        Measurement.getTimingStrategy(timingStrategy),
-        Selection.getSelectionStrategy(selectionStrategy)
-    );
+    // Worker threads need Node.JS 10.5 or later
+    export type IsolationMode = "worker" | "process";
+
+    interface Channel {
+        send(message: any): void;
+        onMessage(listener: (message: any) => void): void;
+        onExit(listener: (err: Error) => void): void;
+        stop(): void;
+    }
+
+    const workerPath = path.join(__dirname, "calibrationWorker.js");
+
+    function startWorker(): Channel {
+        const workerThreads = require("worker_threads");
+        const worker = new workerThreads.Worker(workerPath);
+
+        return {
+            send: message => worker.postMessage(message),
+            onMessage: listener => worker.on("message", listener),
+            onExit: listener => {
+                worker.on("error", listener);
+                worker.on("exit", (code: number) => listener(new Error(`Calibration worker exited with code ${code}.`)));
+            },
+            stop: () => worker.terminate()
+        };
+    }
+
+    function startProcess(): Channel {
+        const child = require("child_process").fork(workerPath);
+
+        return {
+            send: message => child.send(message),
+            onMessage: listener => child.on("message", listener),
+            onExit: listener => {
+                child.on("error", listener);
+                child.on("exit", (code: number) => listener(new Error(`Calibration process exited with code ${code}.`)));
+            },
+            stop: () => child.kill()
+        };
+    }
+
+    // Same as Measurement.generateTimings(), but the strategy is given by name. Events come back to
+    // the eventCallback. The statusCallback is called with each timing, but since it runs in this
+    // process, returning false (or aborting the signal) stops the run with a stopReason of "aborted".
+    export function generateTimings(
+            options: TimingOptions = {},
+            timingStrategy: string = Measurement.defaultTimingStrategy.name,
+            mode: IsolationMode = "worker"): Promise<TimingResult> {
+
+        if (options.backend && options.backend.name !== Backend.native.name) {
+            return Promise.reject(new Error(`The ${options.backend.name} backend can't be used in isolation.`));
+        }
+
+        return new Promise((resolve, reject) => {
+            const channel = mode === "process" ? startProcess() : startWorker();
+            let settled = false;
+
+            const finish = (err: Error, result?: TimingResult) => {
+                if (settled) {
+                    return;
+                }
+                settled = true;
+                channel.stop();
+                return err ? reject(err) : resolve(result);
+            };
+            const cancelIfRequested = () => {
+                if (options.signal && options.signal.aborted) {
+                    channel.send({ type: "cancel" });
+                }
+            };
+
+            channel.onMessage(message => {
+                switch (message.type) {
+                    case "event":
+                        const event: Measurement.CalibrationEvent = message.event;
+                        if (options.eventCallback) {
+                            options.eventCallback(event);
+                        }
+                        if (event.type === "timing" && options.statusCallback && !options.statusCallback(event.timing)) {
+                            channel.send({ type: "cancel" });
+                        }
+                        return cancelIfRequested();
+                    case "result":
+                        return finish(undefined, message.result);
+                    case "error":
+                        return finish(new Error(message.message));
+                    default:
+                        return;
+                }
+            });
+            channel.onExit(err => finish(err));
+
+            channel.send({
+                type: "run",
+                timingStrategy: timingStrategy,
+                options: _.omit(options, ["statusCallback", "eventCallback", "signal", "backend"])
+            });
+            cancelIfRequested();
+        });
+    }
+}
+
+// Calibrates each argon2 variant and reports the options each budget would get, so a variant and
+// a budget can be picked side by side. Written as JSON, Markdown or HTML.
+export namespace Report {
+    import Timing = Measurement.Timing;
+    import TimingResult = Measurement.TimingResult;
+
+    export interface ReportOptions {
+        // The argon2 variants to calibrate. Defaults to all three.
+        types?: number[];
+        // Defaults to the maxTimeMs of the timing options. Each variant is calibrated once, up to the largest.
+        budgets?: number[];
+        timingStrategy?: Measurement.TimingStrategy;
+        selectionStrategy?: Selection.SelectionStrategyType;
+        percentile?: number;
+        timingOptions?: Measurement.TimingOptions;
+        isolation?: Isolation.IsolationMode;
+    }
+
+    export interface BudgetSelection {
+        maxTimeMs: number;
+        options: Options;
+        computeTimeMs: number;
+        hashCost: number;
+        memoryKiB: number;
+        // How many times the work of argon2 defaults, in KiB * timeCost
+        uplift: number;
+    }
+
+    export interface VariantReport {
+        type: number;
+        typeName: string;
+        // The most memory any of the timed hashes used
+        maxMemoryKiB: number;
+        selections: BudgetSelection[];
+        timingResult: TimingResult;
+    }
+
+    export interface CalibrationReport {
+        createdAt: string;
+        host: {
+            cpuModel: string;
+            cpuCount: number;
+            totalMemory: number;
+            argon2Version: string;
+        };
+        timingStrategy: string;
+        selectionStrategy: string;
+        budgets: number[];
+        defaults: {
+            options: Options;
+            hashCost: number;
+            memoryKiB: number;
+            // KiB * timeCost
+            work: number;
+        };
+        variants: VariantReport[];
+    }
+
+    export const typeNames: { [type: number]: string; } = {
+        [argon2d]: "argon2d",
+        [argon2i]: "argon2i",
+        [argon2id]: "argon2id"
+    };
+
+    function getHashCost(options: Options): number {
+        return options.memoryCost * options.parallelism * options.timeCost;
+    }
+
+    // hashCost adds log2 of the memory, so it can't say how many times more work one hash is than another.
+    // The memory is split across the lanes, so parallelism adds none.
+    function getWork(options: Options): number {
+        return Math.pow(2, options.memoryCost) * options.timeCost;
+    }
+
+    function getSelection(maxTimeMs: number, timing: Timing, defaultsWork: number): BudgetSelection {
+        return {
+            maxTimeMs: maxTimeMs,
+            options: timing.options,
+            computeTimeMs: timing.computeTimeMs,
+            hashCost: timing.hashCost,
+            memoryKiB: Math.pow(2, timing.options.memoryCost),
+            uplift: getWork(timing.options) / defaultsWork
+        };
+    }
+
+    // The variants are calibrated one at a time, so they don't skew each other's timings
+    export async function generate(reportOptions: ReportOptions = {}): Promise<CalibrationReport> {
+        const types = reportOptions.types || [argon2d, argon2i, argon2id];
+        const timingStrategy = reportOptions.timingStrategy || Measurement.defaultTimingStrategy;
+        const selectionStrategyType = reportOptions.selectionStrategy === undefined ?
+            Selection.SelectionStrategyType.MaxCost : reportOptions.selectionStrategy;
+        const timingOptions = _.extend({}, Measurement.defaultTimingOptions, reportOptions.timingOptions);
+        const budgets = _.sortBy(reportOptions.budgets || [timingOptions.maxTimeMs]);
+
+        if (!types.length || !budgets.length) {
+            throw new Error("Argument error. No types or budgets found.");
+        }
+
+        const defaultsWork = getWork(defaults);
+        const fingerprint = Profile.getFingerprint(timingOptions.type, timingStrategy.name, "");
+        const variants: VariantReport[] = [];
+        let selectionStrategyName: string;
+
+        for (const type of types) {
+            const options = _.extend({}, timingOptions, { type: type, maxTimeMs: _.last(budgets) });
+            const timingResult = reportOptions.isolation ?
+                await Isolation.generateTimings(options, timingStrategy.name, reportOptions.isolation) :
+                await Measurement.generateTimings(options, timingStrategy);
+
+            // Selection strategies remember what they selected, so each variant gets its own
+            const selectionStrategy = Selection.getSelectionStrategy(selectionStrategyType, reportOptions.percentile);
+            selectionStrategy.initialize(timingResult);
+            selectionStrategyName = selectionStrategy.name;
+
+            variants.push({
+                type: type,
+                typeName: typeNames[type],
+                maxMemoryKiB: Math.pow(2, _.max(_.map(timingResult.timings, t => t.options.memoryCost))),
+                selections: _.map(budgets, maxTimeMs => getSelection(maxTimeMs, selectionStrategy.select(maxTimeMs), defaultsWork)),
+                timingResult: timingResult
+            });
+        }
+
+        return {
+            createdAt: new Date().toISOString(),
+            host: _.pick(fingerprint, ["cpuModel", "cpuCount", "totalMemory", "argon2Version"]),
+            timingStrategy: timingStrategy.name,
+            selectionStrategy: selectionStrategyName,
+            budgets: budgets,
+            defaults: {
+                options: _.pick(defaults, ["memoryCost", "timeCost", "parallelism"]),
+                hashCost: getHashCost(defaults),
+                memoryKiB: Math.pow(2, defaults.memoryCost),
+                work: defaultsWork
+            },
+            variants: variants
+        };
+    }
+
+    function getRows(report: CalibrationReport): string[][] {
+        return _.flatMap(report.variants, variant => _.map(variant.selections, selection => [
+            variant.typeName,
+            `${selection.maxTimeMs}`,
+            `${selection.options.memoryCost}`,
+            `${selection.options.timeCost}`,
+            `${selection.options.parallelism}`,
+            `${selection.memoryKiB / 1024}`,
+            selection.computeTimeMs.toFixed(2),
+            `${selection.hashCost}`,
+            `${selection.uplift.toFixed(2)}x`
+        ]));
+    }
+
+    const headings = ["Type", "Budget ms", "M", "T", "P", "Memory MB", "Compute ms", "Hash cost", "Uplift"];
+
+    function getSummary(report: CalibrationReport): string {
+        return `${report.host.cpuCount} x ${report.host.cpuModel}, ${Math.round(report.host.totalMemory / 1048576)}MB, ` +
+            `argon2 ${report.host.argon2Version}. Timing strategy ${report.timingStrategy}, ` +
+            `selection strategy ${report.selectionStrategy}. Uplift is KiB x timeCost over that of ` +
+            `argon2 defaults, ${report.defaults.memoryKiB} x ${report.defaults.options.timeCost}.`;
+    }
+
+    export function toJson(report: CalibrationReport): string {
+        return JSON.stringify(report, null, 2) + "\n";
+    }
+
+    export function toMarkdown(report: CalibrationReport): string {
+        const lines = [
+            `# Calibration Report`,
+            ``,
+            `${report.createdAt}. ${getSummary(report)}`,
+            ``,
+            `| ${headings.join(" | ")} |`,
+            `|${_.map(headings, () => " --- ").join("|")}|`
+        ];
+
+        getRows(report).forEach(row => lines.push(`| ${row.join(" | ")} |`));
+        lines.push(``, `## Timings`);
+
+        report.variants.forEach(variant => {
+            lines.push(``, `### ${variant.typeName}`, ``,
+                `Up to ${variant.maxMemoryKiB / 1024}MB was used. ${variant.timingResult.timings.length} timings` +
+                (variant.timingResult.incomplete ? `, stopped early (${variant.timingResult.stopReason}).` : `.`),
+                ``, `| M | T | P | Compute ms | Hash cost |`, `| --- | --- | --- | --- | --- |`);
+            variant.timingResult.timings.forEach(t => lines.push(
+                `| ${t.options.memoryCost} | ${t.options.timeCost} | ${t.options.parallelism} | ` +
+                `${t.computeTimeMs.toFixed(2)} | ${t.hashCost} |`));
+        });
+
+        return lines.join("\n") + "\n";
+    }
+
+    function escapeHtml(text: string): string {
+        return text.replace(/&/g, "&amp;").replace(/</g, "&lt;").replace(/>/g, "&gt;").replace(/"/g, "&quot;");
+    }
+
+    function toHtmlTable(headingCells: string[], rows: string[][]): string {
+        const cells = (tag: string, row: string[]) => _.map(row, cell => `<${tag}>${escapeHtml(cell)}</${tag}>`).join("");
+        return `<table>\n<tr>${cells("th", headingCells)}</tr>\n` +
+            _.map(rows, row => `<tr>${cells("td", row)}</tr>\n`).join("") + `</table>\n`;
+    }
+
+    export function toHtml(report: CalibrationReport): string {
+        let html = `<!DOCTYPE html>\n<html>\n<head>\n<meta charset="utf-8">\n<title>Calibration Report</title>\n</head>\n<body>\n` +
+            `<h1>Calibration Report</h1>\n<p>${escapeHtml(`${report.createdAt}. ${getSummary(report)}`)}</p>\n` +
+            toHtmlTable(headings, getRows(report)) + `<h2>Timings</h2>\n`;
+
+        report.variants.forEach(variant => {
+            html += `<h3>${escapeHtml(variant.typeName)}</h3>\n<p>Up to ${variant.maxMemoryKiB / 1024}MB was used.</p>\n` +
+                toHtmlTable(["M", "T", "P", "Compute ms", "Hash cost"], _.map(variant.timingResult.timings, t => [
+                    `${t.options.memoryCost}`, `${t.options.timeCost}`, `${t.options.parallelism}`,
+                    t.computeTimeMs.toFixed(2), `${t.hashCost}`
+                ]));
+        });
+
+        return html + `</body>\n</html>\n`;
+    }
+
+    // Writes basePath.json, basePath.md and basePath.html
+    export async function save(basePath: string, report: CalibrationReport): Promise<string[]> {
+        const files: { [extension: string]: string; } = {
+            ".json": toJson(report),
+            ".md": toMarkdown(report),
+            ".html": toHtml(report)
+        };
+
+        return Promise.all(_.map(files, (text, extension) => new Promise<string>((resolve, reject) => {
+            fs.writeFile(basePath + extension, text, "utf8", err => err ? reject(err) : resolve(basePath + extension));
+        })));
+    }
+}
+
+import TimingStrategyType = Measurement.TimingStrategyType;
+import TimingStrategy = Measurement.TimingStrategy;
+import SelectionStrategyType = Selection.SelectionStrategyType;
+import SelectionStrategy = Selection.SelectionStrategy;
+
+export interface MaxOptionsSettings {
+    // JSON file to load timings from, and save them to after measuring.
+    // Timings are re-measured when the host fingerprint no longer matches.
+    profilePath?: string;
+    // Merged over the default timing options, for example to time several samples per option
+    timingOptions?: Measurement.TimingOptions;
+    // Used by getMaxOptions() to select on a percentile of the samples, such as 95
+    percentile?: number;
+    // Measure again even if there are cached options or a matching profile
+    refresh?: boolean;
+    // Never select options weaker than this. getMaxOptions() rejects with a PolicyError
+    // when nothing that meets it fits in maxMs.
+    policy?: Policy.SecurityPolicy;
+    // Measure in a worker thread or a child process. Only the built in timing strategies can be used.
+    isolation?: Isolation.IsolationMode;
+    // What to hash with while measuring, instead of native argon2. Can't be used with isolation.
+    backend?: Backend.HashBackend;
+}
+
+// The backend is keyed by name, since a simulated one changes as it is used
+function timingOptionsKey(timingOptions: Measurement.TimingOptions): string {
+    const backend = timingOptions && timingOptions.backend;
+    return `${backend ? backend.name : ""}:${JSON.stringify(_.omit(timingOptions, "backend"))}`;
+}
+
+function getSettingsTimingOptions(settings: MaxOptionsSettings): Measurement.TimingOptions {
+    return settings.backend ? _.extend({}, settings.timingOptions, { backend: settings.backend }) : settings.timingOptions;
+}
+
+const optionsCache: { [key: string]: Options; } = { };
+function optionsCacheKey(maxMs: number = Measurement.defaultTimingOptions.maxTimeMs,
+        timingStrategy: string,
+        selectionStrategy: SelectionStrategy,
+        timingOptions: Measurement.TimingOptions): string {
+            return [maxMs, timingStrategy, selectionStrategy.name, selectionStrategy.percentile,
+                JSON.stringify(selectionStrategy.policy), timingOptionsKey(timingOptions)].join(":");
+}
+
+async function getTimingsWithProfile(
+        maxMs: number,
+        timingStrategy: Measurement.TimingStrategy,
+        selectionStrategy: SelectionStrategy,
+        settings: MaxOptionsSettings
+    ): Promise<Measurement.TimingResult> {
+
+    const timingOptions: Measurement.TimingOptions = _.extend({}, getSettingsTimingOptions(settings), { maxTimeMs: maxMs });
+    const generateTimings = () => settings.isolation ?
+        Isolation.generateTimings(timingOptions, timingStrategy.name, settings.isolation) :
+        Measurement.generateTimings(timingOptions, timingStrategy);
+
+    const profilePath = settings.profilePath;
+    if (!profilePath) {
+        return generateTimings();
+    }
+
+    const fingerprint = Profile.getFingerprint(
+        timingOptions.type === undefined ? Measurement.defaultTimingOptions.type : timingOptions.type,
+        timingStrategy.name, selectionStrategy.name, timingOptions.concurrency,
+        timingOptions.maxMemoryBytes, timingOptions.maxParallelism);
+
+    const profile = settings.refresh ? undefined : await Profile.load(profilePath);
+    if (Profile.isValid(profile, fingerprint, maxMs)) {
+        return profile.timingResult;
+    }
+
+    const timings = await generateTimings();
+    if (timings.incomplete) {
+        return timings;
+    }
+
+    await Profile.save(profilePath, {
+        fingerprint: fingerprint,
+        maxTimeMs: maxMs,
+        createdAt: new Date().toISOString(),
+        timingResult: timings
+    });
+
+    return timings;
+}
+
+interface InFlightTimings {
+    maxMs: number;
+    // Once measuring starts, maxMs can't be raised any more
+    started: boolean;
+    timings: Promise<Measurement.TimingResult>;
+}
+
+// Calibrations that are running, or about to, so concurrent callers asking for the same one share it.
+// Measuring starts on the next turn of the event loop, so callers asking for a bigger budget before
+// then, such as getMaxOptions(100) and getMaxOptions(1000) at startup, raise its maxMs instead of
+// starting another calibration. Callers with callbacks or a signal get their own, since only they
+// should hear from it or be able to stop it.
+const inFlightTimings: { [key: string]: InFlightTimings[]; } = { };
+
+function getTimings(
+        maxMs: number,
+        timingStrategy: Measurement.TimingStrategy,
+        selectionStrategy: SelectionStrategy,
+        settings: MaxOptionsSettings
+    ): Promise<Measurement.TimingResult> {
+
+    const timingOptions = settings.timingOptions || {};
+    if (timingOptions.signal || timingOptions.statusCallback || timingOptions.eventCallback) {
+        return getTimingsWithProfile(maxMs, timingStrategy, selectionStrategy, settings);
+    }
+
+    const key = [timingStrategy.name, selectionStrategy.name, settings.profilePath, settings.refresh,
+        settings.isolation, timingOptionsKey(getSettingsTimingOptions(settings))].join(":");
+    const calibrations = inFlightTimings[key] = inFlightTimings[key] || [];
+
+    const calibration = _.find(calibrations, c => c.maxMs >= maxMs) || _.find(calibrations, c => !c.started);
+    if (calibration) {
+        calibration.maxMs = Math.max(calibration.maxMs, maxMs);
+        return calibration.timings;
+    }
+
+    const pending: InFlightTimings = { maxMs: maxMs, started: false, timings: undefined };
+    pending.timings = new Promise(resolve => setImmediate(resolve)).then(() => {
+        pending.started = true;
+        return getTimingsWithProfile(pending.maxMs, timingStrategy, selectionStrategy, settings);
+    });
+
+    const done = () => {
+        _.pull(calibrations, pending);
+        if (!calibrations.length && inFlightTimings[key] === calibrations) {
+            delete inFlightTimings[key];
+        }
+    };
+    pending.timings.then(done, done);
+    calibrations.push(pending);
+
+    return pending.timings;
+}
+
+// Options for each of the budgets, from a single calibration sized to the largest one.
+// Use a timing strategy that times the smaller budgets on the way, like ClosestMatch or MaxMemoryMarch.
+export async function getMaxOptionsForBudgetsWithStrategies(
+        budgets: number[],
+        timingStrategy: Measurement.TimingStrategy,
+        selectionStrategy: SelectionStrategy,
+        settings: MaxOptionsSettings = {}
+    ): Promise<{ [maxMs: number]: Options; }> {
+
+    if (!budgets || !budgets.length) {
+        throw new Error("Argument error. No budgets found.");
+    }
+
+    // A copy, so the caller's strategy keeps its own policy
+    if (settings.policy) {
+        selectionStrategy = _.extend(_.clone(selectionStrategy), { policy: settings.policy });
+    }
+
+    const optionsByBudget: { [maxMs: number]: Options; } = { };
+    const cacheKeys = _.map(budgets, maxMs =>
+        optionsCacheKey(maxMs, timingStrategy.name, selectionStrategy, getSettingsTimingOptions(settings)));
+    if (!settings.refresh && _.every(cacheKeys, key => optionsCache[key])) {
+        budgets.forEach((maxMs, i) => optionsByBudget[maxMs] = optionsCache[cacheKeys[i]]);
+        return optionsByBudget;
+    }
+
+    const timings = await getTimings(_.max(budgets), timingStrategy, selectionStrategy, settings);
+    selectionStrategy.initialize(timings);
+
+    budgets.forEach((maxMs, i) => {
+        const options = optionsByBudget[maxMs] = selectionStrategy.select(maxMs).options;
+
+        // Partial timings are good enough for now, but not good enough to keep
+        if (!timings.incomplete) {
+            optionsCache[cacheKeys[i]] = options;
+        }
+    });
+
+    return optionsByBudget;
+}
+
+export async function getMaxOptionsForBudgets(
+        budgets: number[],
+        timingStrategy: TimingStrategyType = TimingStrategyType.ClosestMatch,
+        selectionStrategy: SelectionStrategyType = SelectionStrategyType.MaxCost,
+        settings: MaxOptionsSettings = {}
+    ): Promise<{ [maxMs: number]: Options; }> {
+
+    return getMaxOptionsForBudgetsWithStrategies(
+        budgets,
+        Measurement.getTimingStrategy(timingStrategy),
+        Selection.getSelectionStrategy(selectionStrategy, settings.percentile),
+        settings
+    );
+}
+
+export async function getMaxOptionsWithStrategies(
+        maxMs: number = Measurement.defaultTimingOptions.maxTimeMs,
+        timingStrategy: Measurement.TimingStrategy,
+        selectionStrategy: SelectionStrategy,
+        settings: MaxOptionsSettings = {}
+    ): Promise<Options> {
+
+    const optionsByBudget = await getMaxOptionsForBudgetsWithStrategies([maxMs], timingStrategy, selectionStrategy, settings);
+    return optionsByBudget[maxMs];
+}
+
+export async function getMaxOptions(
+        maxMs: number = Measurement.defaultTimingOptions.maxTimeMs,
+        timingStrategy: TimingStrategyType = TimingStrategyType.ClosestMatch,
+        selectionStrategy: SelectionStrategyType = SelectionStrategyType.MaxCost,
+        settings: MaxOptionsSettings = {}
+    ): Promise<Options> {
+
+    return getMaxOptionsWithStrategies(
+        maxMs,
+        Measurement.getTimingStrategy(timingStrategy),
+        Selection.getSelectionStrategy(selectionStrategy, settings.percentile),
+        settings
+    );
+}
+
+export interface UpgradeResult {
+    match: boolean;
+    newHash?: string;
+}
+
+// Verify a password and, if it matches a hash made with weaker options than the ones
+// getMaxOptions() now selects, hash it again so it can be stored in place of the old one.
+export async function verifyAndUpgrade(
+        encodedHash: string,
+        plain: Buffer | string,
+        options?: Options
+    ): Promise<UpgradeResult> {
+
+    const match = await verify(encodedHash, plain);
+    if (!match) {
+        return { match: false };
+    }
+
+    options = options || await getMaxOptions();
+    if (!needsRehash(encodedHash, options)) {
+        return { match: true };
+    }
+
+    const salt = await generateSalt();
+    return {
+        match: true,
+        newHash: await hash(plain, salt, options)
+    };
+}
+
+export interface HasherOptions {
+    // Hashes and verifies allowed at once. By default, as many as fit in the memory available when it is created.
+    maxConcurrency?: number;
+    // Requests waiting for a turn beyond this are rejected
+    maxQueueLength?: number;
+    // Requests that wait longer than this for a turn are rejected
+    queueTimeoutMs?: number;
+    saltLength?: number;
+}
+
+export interface HasherStats {
+    active: number;
+    queued: number;
+    maxConcurrency: number;
+    maxQueueLength: number;
+    completed: number;
+    rejected: number;
+    timedOut: number;
+    averageWaitMs: number;
+    maxWaitMs: number;
+}
+
+export interface HasherError extends Error {
+    code: "QUEUE_FULL" | "QUEUE_TIMEOUT";
+}
+
+interface QueuedJob {
+    enqueuedAt: number;
+    start: () => void;
+    timer?: NodeJS.Timer;
+}
+
+// Hashes and verifies with a fixed set of options, running only as many at once as fit
+// in memory and queueing the rest, so a burst of logins can't exhaust RAM.
+export class Hasher {
+    readonly options: Options;
+    readonly maxConcurrency: number;
+    readonly maxQueueLength: number;
+    readonly queueTimeoutMs: number;
+    readonly saltLength: number;
+
+    private active: number = 0;
+    private queue: QueuedJob[] = [];
+    private completed: number = 0;
+    private rejected: number = 0;
+    private timedOut: number = 0;
+    private started: number = 0;
+    private totalWaitMs: number = 0;
+    private maxWaitMs: number = 0;
+
+    constructor(options: Options, hasherOptions: HasherOptions = {}) {
+        this.options = options;
+
+        const memoryCost = options.memoryCost === undefined ? defaults.memoryCost : options.memoryCost;
+        const hashBytes = Math.pow(2, memoryCost) * 1024;
+        this.maxConcurrency = hasherOptions.maxConcurrency ||
+            Math.max(Math.floor(Resources.getAvailableMemory() / hashBytes), 1);
+        this.maxQueueLength = hasherOptions.maxQueueLength === undefined ? 100 : hasherOptions.maxQueueLength;
+        this.queueTimeoutMs = hasherOptions.queueTimeoutMs;
+        this.saltLength = hasherOptions.saltLength;
+    }
+
+    hash(plain: Buffer | string): Promise<string> {
+        return this.run(async () => hash(plain, await generateSalt(this.saltLength), this.options));
+    }
+
+    verify(encodedHash: string, plain: Buffer | string): Promise<boolean> {
+        return this.run(() => verify(encodedHash, plain));
+    }
+
+    stats(): HasherStats {
+        return {
+            active: this.active,
+            queued: this.queue.length,
+            maxConcurrency: this.maxConcurrency,
+            maxQueueLength: this.maxQueueLength,
+            completed: this.completed,
+            rejected: this.rejected,
+            timedOut: this.timedOut,
+            averageWaitMs: this.started ? this.totalWaitMs / this.started : 0,
+            maxWaitMs: this.maxWaitMs
+        };
+    }
+
+    private async run<T>(job: () => Promise<T>): Promise<T> {
+        await this.acquire();
+        try {
+            return await job();
+        } finally {
+            this.completed++;
+            this.release();
+        }
+    }
+
+    private acquire(): Promise<void> {
+        if (this.active < this.maxConcurrency) {
+            this.active++;
+            this.started++;
+            return Promise.resolve();
+        }
+
+        if (this.queue.length >= this.maxQueueLength) {
+            this.rejected++;
+            return Promise.reject(this.createError("QUEUE_FULL", "Hasher queue is full."));
+        }
+
+        return new Promise<void>((resolve, reject) => {
+            const queued: QueuedJob = {
+                enqueuedAt: Date.now(),
+                start: () => {
+                    const waitMs = Date.now() - queued.enqueuedAt;
+                    this.totalWaitMs += waitMs;
+                    this.maxWaitMs = Math.max(this.maxWaitMs, waitMs);
+                    this.started++;
+                    resolve();
+                }
+            };
+
+            if (this.queueTimeoutMs !== undefined) {
+                queued.timer = setTimeout(() => {
+                    _.pull(this.queue, queued);
+                    this.timedOut++;
+                    reject(this.createError("QUEUE_TIMEOUT", `Timed out after waiting ${this.queueTimeoutMs}ms in the hasher queue.`));
+                }, this.queueTimeoutMs);
+            }
+
+            this.queue.push(queued);
+        });
+    }
+
+    private release(): void {
+        const next = this.queue.shift();
+        if (!next) {
+            this.active--;
+            return;
+        }
+
+        // The finished job's slot goes straight to the next one in line
+        if (next.timer) {
+            clearTimeout(next.timer);
+        }
+        next.start();
+    }
+
+    private createError(code: "QUEUE_FULL" | "QUEUE_TIMEOUT", message: string): HasherError {
+        const err = <HasherError> new Error(message);
+        err.code = code;
+        return err;
+    }
+}
+
+// A Hasher using the options from getMaxOptions()
+export async function createHasher(
+        hasherOptions?: HasherOptions,
+        maxMs: number = Measurement.defaultTimingOptions.maxTimeMs
+    ): Promise<Hasher> {
+
+    return new Hasher(await getMaxOptions(maxMs), hasherOptions);
+}
+
+export interface LatencyMonitorOptions {
+    maxMs?: number;
+    // How many of the most recent hash and verify times to keep
+    windowSize?: number;
+    // Don't judge the p95 until the window has at least this many times in it
+    minSamples?: number;
+    // Measure again in the background when the p95 drifts past maxMs
+    recalibrate?: boolean;
+    timingStrategy?: TimingStrategyType;
+    selectionStrategy?: SelectionStrategyType;
+    settings?: MaxOptionsSettings;
+}
+
+// Times every hash and verify, keeping a rolling window of the latest times.
+// Emits "drift" with { p95Ms, maxMs } when the p95 goes over maxMs, and "recovered" when it
+// comes back under. With recalibrate set, a drift also measures again in the background,
+// emitting "recalibrated" with the new Options once they are in use, or "recalibration-failed" with
+// the error if that failed. A failure is never emitted as "error", which would crash the process.
+export class LatencyMonitor extends EventEmitter {
+    options: Options;
+    readonly maxMs: number;
+    readonly windowSize: number;
+    readonly minSamples: number;
+
+    private monitorOptions: LatencyMonitorOptions;
+    private window: number[] = [];
+    private drifting: boolean = false;
+    private recalibrating: Promise<Options>;
+
+    constructor(options: Options, monitorOptions: LatencyMonitorOptions = {}) {
+        super();
+
+        this.options = options;
+        this.monitorOptions = monitorOptions;
+        this.maxMs = monitorOptions.maxMs || Measurement.defaultTimingOptions.maxTimeMs;
+        this.windowSize = monitorOptions.windowSize || 100;
+        this.minSamples = Math.min(monitorOptions.minSamples || 20, this.windowSize);
+    }
+
+    async hash(plain: Buffer | string, salt?: Buffer): Promise<string> {
+        salt = salt || await generateSalt();
+        return this.time(() => hash(plain, salt, this.options));
+    }
+
+    verify(encodedHash: string, plain: Buffer | string): Promise<boolean> {
+        return this.time(() => verify(encodedHash, plain));
+    }
+
+    p95(): number {
+        return this.window.length ? Measurement.percentile(this.window, 95) : 0;
+    }
+
+    record(ms: number): void {
+        this.window.push(ms);
+        if (this.window.length > this.windowSize) {
+            this.window.shift();
+        }
+
+        if (this.window.length < this.minSamples) {
+            return;
+        }
+
+        const p95Ms = this.p95();
+        if (p95Ms > this.maxMs && !this.drifting) {
+            this.drifting = true;
+            this.emit("drift", { p95Ms: p95Ms, maxMs: this.maxMs });
+
+            if (this.monitorOptions.recalibrate) {
+                this.recalibrate().catch(err => this.emit("recalibration-failed", err));
+            }
+        } else if (p95Ms <= this.maxMs && this.drifting) {
+            this.drifting = false;
+            this.emit("recovered", { p95Ms: p95Ms, maxMs: this.maxMs });
+        }
+    }
+
+    // Measures again, bypassing the cached options, and starts using the result
+    recalibrate(): Promise<Options> {
+        if (this.recalibrating) {
+            return this.recalibrating;
+        }
+
+        const settings: MaxOptionsSettings = _.extend({}, this.monitorOptions.settings, { refresh: true });
+        this.recalibrating = getMaxOptions(
+            this.maxMs,
+            this.monitorOptions.timingStrategy,
+            this.monitorOptions.selectionStrategy,
+            settings
+        ).then(options => {
+            this.recalibrating = undefined;
+            this.options = options;
+            this.window = [];
+            this.drifting = false;
+            this.emit("recalibrated", options);
+            return options;
+        }, err => {
+            this.recalibrating = undefined;
+            throw err;
+        });
+
+        return this.recalibrating;
+    }
+
+    private async time<T>(job: () => Promise<T>): Promise<T> {
+        const startHrtime = process.hrtime();
+        const result = await job();
+        const elapsedHrtime = process.hrtime(startHrtime);
+
+        this.record(elapsedHrtime[0] * 1e3 + elapsedHrtime[1] / 1e6);
+        return result;
+    }
+}
+
+// A LatencyMonitor using the options from getMaxOptions()
+export async function createLatencyMonitor(monitorOptions: LatencyMonitorOptions = {}): Promise<LatencyMonitor> {
+    const options = await getMaxOptions(
+        monitorOptions.maxMs,
+        monitorOptions.timingStrategy,
+        monitorOptions.selectionStrategy,
+        monitorOptions.settings);
+
+    return new LatencyMonitor(options, monitorOptions);
+}
+
+// Peppered hashes mix a server-side secret into the password with HMAC-SHA256 before it is
+// hashed, so a database dump alone isn't enough to crack them. The id of the key is stored
+// in front of the argon2 hash, like $pepper$<keyId>$argon2i$v=19$..., so old keys can
+// still be verified after the current key is rotated.
+export namespace Pepper {
+    export interface Key {
+        // Letters, numbers, "-" and "_"
+        id: string;
+        secret: Buffer | string;
+    }
+
+    const pepperedHashPattern = /^\$pepper\$([\w-]+)(\$argon2.*)$/;
+
+    export function prehash(plain: Buffer | string, secret: Buffer | string): Buffer {
+        return crypto.createHmac("sha256", secret).update(plain).digest();
+    }
+
+    // The id of the key a hash was peppered with, or undefined for a hash without pepper
+    export function getKeyId(encodedHash: string): string {
+        const match = pepperedHashPattern.exec(encodedHash || "");
+        return match ? match[1] : undefined;
+    }
+
+    // The argon2 hash without the key id, which works with needsRehash() and getHashParameters()
+    export function getArgon2Hash(encodedHash: string): string {
+        const match = pepperedHashPattern.exec(encodedHash || "");
+        return match ? match[2] : encodedHash;
+    }
+
+    export class Keyring {
+        readonly currentKey: Key;
+        private keys: { [id: string]: Key; } = {};
+
+        // The current key defaults to the last one
+        constructor(keys: Key[], currentKeyId?: string) {
+            if (!keys || !keys.length) {
+                throw new Error("Argument error. No keys found.");
+            }
+
+            keys.forEach(key => {
+                if (!/^[\w-]+$/.test(key.id)) {
+                    throw new Error(`Argument error. Invalid key id "${key.id}".`);
+                }
+                this.keys[key.id] = key;
+            });
+
+            this.currentKey = currentKeyId === undefined ? _.last(keys) : this.keys[currentKeyId];
+            if (!this.currentKey) {
+                throw new Error(`Argument error. Unknown key id "${currentKeyId}".`);
+            }
+        }
+
+        async hash(plain: Buffer | string, salt: Buffer, options?: Options): Promise<string> {
+            const key = this.currentKey;
+            return `$pepper$${key.id}${await hash(prehash(plain, key.secret), salt, options)}`;
+        }
+
+        // Hashes without pepper are verified as they are, so existing hashes keep working.
+        // Hashes peppered with a key that isn't in the keyring fail with an error.
+        verify(encodedHash: string, plain: Buffer | string): Promise<boolean> {
+            const keyId = getKeyId(encodedHash);
+            if (keyId === undefined) {
+                return verify(encodedHash, plain);
+            }
+
+            const key = this.keys[keyId];
+            if (!key) {
+                return Promise.reject(new Error(`Unknown pepper key id "${keyId}".`));
+            }
+
+            return verify(getArgon2Hash(encodedHash), prehash(plain, key.secret));
+        }
+
+        // True when the hash isn't peppered with the current key, or needsRehash() says so
+        needsRehash(encodedHash: string, options: Options): boolean {
+            return getKeyId(encodedHash) !== this.currentKey.id ||
+                needsRehash(getArgon2Hash(encodedHash), options);
+        }
+
+        async verifyAndUpgrade(
+                encodedHash: string,
+                plain: Buffer | string,
+                options?: Options
+            ): Promise<UpgradeResult> {
+
+            const match = await this.verify(encodedHash, plain);
+            if (!match) {
+                return { match: false };
+            }
+
+            options = options || await getMaxOptions();
+            if (!this.needsRehash(encodedHash, options)) {
+                return { match: true };
+            }
+
+            return {
+                match: true,
+                newHash: await this.hash(plain, await generateSalt(), options)
+            };
+        }
+    }
+}
+
+// Verifies password hashes from before argon2themax, so users can be moved to argon2 as they log in.
+// Only what Node's crypto module can do: PBKDF2 and scrypt.
+export namespace Legacy {
+    export interface LegacyVerifier {
+        name: string;
+        canVerify(encodedHash: string): boolean;
+        verify(encodedHash: string, plain: Buffer | string): Promise<boolean>;
+    }
+
+    // Costs a stored hash can ask for before it's rejected without verifying, since an imported
+    // hash with a huge cost can tie up the verifier just like an argon2 one
+    export interface LegacyLimits {
+        // Django hashes with 1,200,000 PBKDF2 iterations these days
+        maxIterations?: number;
+        // scrypt uses 128 * N * r bytes. passlib's defaults use 16MB.
+        maxScryptMemoryBytes?: number;
+        maxScryptParallelization?: number;
+    }
+
+    export const defaultLimits: LegacyLimits = {
+        maxIterations: 2000000,
+        maxScryptMemoryBytes: 256 * 1024 * 1024,
+        maxScryptParallelization: 16
+    };
+
+    function checkLimits(violations: string[]): void {
+        violations = _.compact(violations);
+        if (violations.length) {
+            throw Guard.createError("HASH_REJECTED", `Hash rejected without verifying. ${violations.join(" ")}`, violations);
+        }
+    }
+
+    function checkIterations(iterations: number, limits: LegacyLimits): void {
+        const maxIterations = _.extend({}, defaultLimits, limits).maxIterations;
+        checkLimits([iterations > maxIterations && `Iterations ${iterations} are above the maximum of ${maxIterations}.`]);
+    }
+
+    const digests: { [name: string]: string; } = {
+        sha1: "sha1",
+        sha256: "sha256",
+        sha512: "sha512"
+    };
+
+    // passlib's base64, with "." instead of "+" and no padding
+    function decodeAdaptedBase64(value: string): Buffer {
+        return Buffer.from(value.replace(/\./g, "+"), "base64");
+    }
+
+    function timingSafeEqual(a: Buffer, b: Buffer): boolean {
+        return a.length === b.length && crypto.timingSafeEqual(a, b);
+    }
+
+    function pbkdf2(plain: Buffer | string, salt: Buffer | string, iterations: number, keyLength: number, digest: string): Promise<Buffer> {
+        return new Promise((resolve, reject) => {
+            crypto.pbkdf2(plain, salt, iterations, keyLength, digest, (err, derived) => {
+                if (err) {
+                    return reject(err);
+                }
+                resolve(derived);
+            });
+        });
+    }
+
+    function scrypt(
+            plain: Buffer | string,
+            salt: Buffer,
+            keyLength: number,
+            cost: number,
+            blockSize: number,
+            parallelization: number): Promise<Buffer> {
+
+        // Added to Node in 10.5
+        const nodeScrypt = (<any> crypto).scrypt;
+        if (!nodeScrypt) {
+            return Promise.reject(new Error("scrypt needs Node.JS 10.5 or later."));
+        }
+
+        return new Promise((resolve, reject) => {
+            const scryptOptions = {
+                N: cost,
+                r: blockSize,
+                p: parallelization,
+                maxmem: 128 * cost * blockSize * 2 + 1024 * 1024
+            };
+
+            nodeScrypt(plain, salt, keyLength, scryptOptions, (err: Error, derived: Buffer) => {
+                if (err) {
+                    return reject(err);
+                }
+                resolve(derived);
+            });
+        });
+    }
+
+    // Django's pbkdf2_sha256$<iterations>$<salt>$<base64 hash>, and pbkdf2_sha1
+    export function createDjangoPbkdf2(limits: LegacyLimits = defaultLimits): LegacyVerifier {
+        return {
+            name: "django-pbkdf2",
+            canVerify: encodedHash => /^pbkdf2_(sha1|sha256)\$\d+\$[^$]+\$[A-Za-z0-9+\/=]+$/.test(encodedHash),
+            verify: async (encodedHash, plain) => {
+                const parts = encodedHash.split("$");
+                const iterations = parseInt(parts[1], 10);
+                checkIterations(iterations, limits);
+
+                const expected = Buffer.from(parts[3], "base64");
+                const derived = await pbkdf2(plain, parts[2], iterations, expected.length, digests[parts[0].substr(7)]);
+                return timingSafeEqual(derived, expected);
+            }
+        };
+    }
+
+    // passlib's $pbkdf2$<rounds>$<salt>$<hash>, and $pbkdf2-sha256$ and $pbkdf2-sha512$
+    export function createPasslibPbkdf2(limits: LegacyLimits = defaultLimits): LegacyVerifier {
+        return {
+            name: "passlib-pbkdf2",
+            canVerify: encodedHash => /^\$pbkdf2(-sha256|-sha512)?\$\d+\$[A-Za-z0-9.\/]*\$[A-Za-z0-9.\/]+$/.test(encodedHash),
+            verify: async (encodedHash, plain) => {
+                const parts = encodedHash.split("$");
+                const iterations = parseInt(parts[2], 10);
+                checkIterations(iterations, limits);
+
+                const digest = parts[1] === "pbkdf2" ? "sha1" : digests[parts[1].substr(7)];
+                const expected = decodeAdaptedBase64(parts[4]);
+                const derived = await pbkdf2(plain, decodeAdaptedBase64(parts[3]), iterations, expected.length, digest);
+                return timingSafeEqual(derived, expected);
+            }
+        };
+    }
+
+    // passlib's $scrypt$ln=<log2 N>,r=<block size>,p=<parallelization>$<salt>$<hash>
+    export function createPasslibScrypt(limits: LegacyLimits = defaultLimits): LegacyVerifier {
+        return {
+            name: "passlib-scrypt",
+            canVerify: encodedHash => /^\$scrypt\$ln=\d+,r=\d+,p=\d+\$[A-Za-z0-9.\/]*\$[A-Za-z0-9.\/]+$/.test(encodedHash),
+            verify: async (encodedHash, plain) => {
+                const parts = encodedHash.split("$");
+                const params = /^ln=(\d+),r=(\d+),p=(\d+)$/.exec(parts[2]);
+                const cost = Math.pow(2, parseInt(params[1], 10));
+                const blockSize = parseInt(params[2], 10);
+                const parallelization = parseInt(params[3], 10);
+
+                const max = _.extend({}, defaultLimits, limits);
+                const memoryBytes = 128 * cost * blockSize;
+                checkLimits([
+                    memoryBytes > max.maxScryptMemoryBytes &&
+                        `Memory ${memoryBytes} bytes is above the maximum of ${max.maxScryptMemoryBytes} bytes.`,
+                    parallelization > max.maxScryptParallelization &&
+                        `Parallelization ${parallelization} is above the maximum of ${max.maxScryptParallelization}.`
+                ]);
+
+                const expected = decodeAdaptedBase64(parts[4]);
+                const derived = await scrypt(plain, decodeAdaptedBase64(parts[3]), expected.length, cost, blockSize, parallelization);
+                return timingSafeEqual(derived, expected);
+            }
+        };
+    }
+
+    export const djangoPbkdf2: LegacyVerifier = createDjangoPbkdf2();
+    export const passlibPbkdf2: LegacyVerifier = createPasslibPbkdf2();
+    export const passlibScrypt: LegacyVerifier = createPasslibScrypt();
+
+    export class VerifierRegistry {
+        private verifiers: LegacyVerifier[] = [];
+
+        register(verifier: LegacyVerifier): this {
+            this.verifiers.push(verifier);
+            return this;
+        }
+
+        find(encodedHash: string): LegacyVerifier {
+            return _.find(this.verifiers, verifier => verifier.canVerify(encodedHash));
+        }
+
+        isArgon2(encodedHash: string): boolean {
+            return /^\$argon2(d|i|id)\$/.test(encodedHash);
+        }
+
+        // Argon2 hashes are verified as usual. Hashes no verifier recognizes fail with an error.
+        verify(encodedHash: string, plain: Buffer | string): Promise<boolean> {
+            if (this.isArgon2(encodedHash)) {
+                return verify(encodedHash, plain);
+            }
+
+            const verifier = this.find(encodedHash);
+            if (!verifier) {
+                return Promise.reject(new Error("Unrecognized hash format."));
+            }
+
+            return verifier.verify(encodedHash, plain);
+        }
+
+        // When the password matches a legacy hash, newHash is an argon2 hash to store in its place.
+        // Argon2 hashes get the same treatment as verifyAndUpgrade().
+        async verifyAndMigrate(
+                encodedHash: string,
+                plain: Buffer | string,
+                options?: Options
+            ): Promise<UpgradeResult> {
+
+            if (this.isArgon2(encodedHash)) {
+                return verifyAndUpgrade(encodedHash, plain, options);
+            }
+
+            const match = await this.verify(encodedHash, plain);
+            if (!match) {
+                return { match: false };
+            }
+
+            options = options || await getMaxOptions();
+            return {
+                match: true,
+                newHash: await hash(plain, await generateSalt(), options)
+            };
+        }
+    }
+
+    // A registry with every verifier in this namespace, limited to defaultLimits unless limits are given.
+    // Hashes over the limits are rejected with a Guard.GuardError, with a code of HASH_REJECTED, without verifying them.
+    export function createDefaultRegistry(limits?: LegacyLimits): VerifierRegistry {
+        return new VerifierRegistry()
+            .register(limits ? createDjangoPbkdf2(limits) : djangoPbkdf2)
+            .register(limits ? createPasslibPbkdf2(limits) : passlibPbkdf2)
+            .register(limits ? createPasslibScrypt(limits) : passlibScrypt);
+    }
+}
+
+// Tells when the host got slower than the one a baseline calibration was made on, and which of the
+// stored hashes will take longer than the budget to verify here, without verifying any of them.
+export namespace Audit {
+    import CalibrationProfile = Profile.CalibrationProfile;
+
+    export interface HardwareChange {
+        // The host fingerprint fields that differ from the baseline's
+        changedFields: string[];
+        // How many times longer the same hash takes here than on the baseline host. Above 1 is slower.
+        slowdown: number;
+    }
+
+    export function compare(baseline: CalibrationProfile, current: CalibrationProfile): HardwareChange {
+        const baselineModel = Model.fit(baseline.timingResult);
+        const currentModel = Model.fit(current.timingResult);
+        const fingerprint: { [field: string]: any; } = baseline.fingerprint;
+        const currentFingerprint: { [field: string]: any; } = current.fingerprint;
+
+        return {
+            changedFields: _.filter(_.keys(fingerprint), field => !_.isEqual(fingerprint[field], currentFingerprint[field])),
+            slowdown: currentModel.predict(baselineModel.template) / baselineModel.predict(baselineModel.template)
+        };
+    }
+
+    export interface ParameterGroup {
+        // As they appear in the hashes, such as argon2i$v=19$m=4096,t=3,p=1
+        key: string;
+        parameters: HashParameters;
+        count: number;
+        estimatedVerifyMs: number;
+        overBudget: boolean;
+    }
+
+    export interface HashAudit {
+        maxMs: number;
+        total: number;
+        // Hashes that aren't argon2, such as legacy hashes, or aren't hashes at all
+        unrecognized: number;
+        // The slowest to verify first
+        groups: ParameterGroup[];
+        overBudget: ParameterGroup[];
+    }
+
+    // Groups hashes by their parameters as they are added. Peppered hashes are grouped with the rest.
+    export class HashAuditor {
+        readonly model: Model.CostModel;
+        readonly maxMs: number;
+        private groups: { [key: string]: ParameterGroup; } = {};
+        private total: number = 0;
+        private unrecognized: number = 0;
+
+        constructor(model: Model.CostModel, maxMs: number = Measurement.defaultTimingOptions.maxTimeMs) {
+            this.model = model;
+            this.maxMs = maxMs;
+        }
+
+        add(encodedHash: string): void {
+            this.total++;
+
+            const argon2Hash = Pepper.getArgon2Hash(encodedHash);
+            let parameters: HashParameters;
+            try {
+                parameters = getHashParameters(argon2Hash);
+            } catch (e) {
+                this.unrecognized++;
+                return;
+            }
+
+            const type = _.findKey(typeNames, t => t === parameters.type);
+            const key = `${type}$v=${parameters.version}$m=${getHashMemoryKiB(argon2Hash)},` +
+                `t=${parameters.timeCost},p=${parameters.parallelism}`;
+
+            let group = this.groups[key];
+            if (!group) {
+                const estimatedVerifyMs = this.model.predict(parameters);
+                group = this.groups[key] = {
+                    key: key,
+                    parameters: parameters,
+                    count: 0,
+                    estimatedVerifyMs: estimatedVerifyMs,
+                    overBudget: estimatedVerifyMs > this.maxMs
+                };
+            }
+            group.count++;
+        }
+
+        getReport(): HashAudit {
+            const groups = _.orderBy(_.values(this.groups), ["estimatedVerifyMs", "count"], ["desc", "desc"]);
+            return {
+                maxMs: this.maxMs,
+                total: this.total,
+                unrecognized: this.unrecognized,
+                groups: groups,
+                overBudget: _.filter(groups, group => group.overBudget)
+            };
+        }
+    }
+
+    export function auditHashes(model: Model.CostModel, encodedHashes: string[], maxMs?: number): HashAudit {
+        const auditor = new HashAuditor(model, maxMs);
+        encodedHashes.forEach(encodedHash => auditor.add(encodedHash));
+        return auditor.getReport();
+    }
+
+    // One hash per line, such as a file or a database export piped to stdin. Blank lines are skipped.
+    export function auditStream(model: Model.CostModel, input: NodeJS.ReadableStream, maxMs?: number): Promise<HashAudit> {
+        return new Promise((resolve, reject) => {
+            const auditor = new HashAuditor(model, maxMs);
+            const lines = readline.createInterface({ input: input });
+
+            input.on("error", reject);
+            lines.on("line", (line: string) => {
+                const encodedHash = line.trim();
+                if (encodedHash) {
+                    auditor.add(encodedHash);
+                }
+            });
+            lines.on("close", () => resolve(auditor.getReport()));
+        });
+    }
 }
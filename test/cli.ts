@@ -0,0 +1,63 @@
+import * as mocha from "mocha";
+import * as chai from "chai";
+import * as argon2 from "../src/index";
+import * as cli from "../src/cli";
+
+class CapturedOutput implements cli.Output {
+    text: string = "";
+
+    write(text: string): void {
+        this.text += text;
+    }
+}
+
+describe("Command line", () => {
+    it("can hash, verify and inspect", async function (): Promise<any> {
+        this.timeout(0);
+
+        const out = new CapturedOutput();
+        const err = new CapturedOutput();
+        const options = JSON.stringify(argon2.defaults);
+
+        chai.assert.strictEqual(await cli.run(["hash", "password", "--options", options], out, err), cli.exitCodes.success);
+        const hash = out.text.trim();
+        chai.assert.strictEqual(argon2.getHashParameters(hash).timeCost, argon2.defaults.timeCost);
+
+        chai.assert.strictEqual(await cli.run(["verify", hash, "password"], out, err), cli.exitCodes.success);
+        chai.assert.strictEqual(await cli.run(["verify", hash, "wrong"], out, err), cli.exitCodes.failure);
+
+        out.text = "";
+        chai.assert.strictEqual(await cli.run(["inspect", hash, "--json", "--max-ms", "20"], out, err), cli.exitCodes.success);
+        const inspected = JSON.parse(out.text);
+        chai.assert.strictEqual(inspected.version, 19);
+        chai.assert.isAbove(inspected.estimatedVerifyMs, 0);
+        chai.assert.strictEqual(err.text, "");
+    });
+
+    it("exits with a usage error on bad arguments", async function (): Promise<any> {
+        const out = new CapturedOutput();
+        const err = new CapturedOutput();
+
+        chai.assert.strictEqual(await cli.run([], out, err), cli.exitCodes.usage);
+        chai.assert.strictEqual(await cli.run(["frobnicate"], out, err), cli.exitCodes.usage);
+        chai.assert.strictEqual(await cli.run(["calibrate", "--type", "argon3"], out, err), cli.exitCodes.usage);
+        chai.assert.strictEqual(await cli.run(["calibrate", "--max-ms", "soon"], out, err), cli.exitCodes.usage);
+        chai.assert.strictEqual(await cli.run(["calibrate", "--bogus", "1"], out, err), cli.exitCodes.usage);
+        chai.assert.strictEqual(await cli.run(["inspect", "not a hash"], out, err), cli.exitCodes.usage);
+        chai.assert.strictEqual(await cli.run(["verify", "not a hash", "password"], out, err), cli.exitCodes.usage);
+        chai.assert.strictEqual(await cli.run(["report", "--budgets", "50,soon"], out, err), cli.exitCodes.usage);
+        chai.assert.strictEqual(await cli.run(["audit", "--hashes", "-"], out, err), cli.exitCodes.usage);
+        chai.assert.include(err.text, "Usage: argon2themax");
+        chai.assert.strictEqual(out.text, "");
+    });
+
+    it("exits with an error code, not a failure, when something goes wrong", async function (): Promise<any> {
+        const out = new CapturedOutput();
+        const err = new CapturedOutput();
+
+        chai.assert.strictEqual(await cli.run(["hash", "password", "--options", `{"timeCost":0}`], out, err), cli.exitCodes.error,
+            "argon2 failing isn't a wrong password");
+        chai.assert.notInclude(err.text, "Usage: argon2themax");
+        chai.assert.strictEqual(out.text, "");
+    });
+});
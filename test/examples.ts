@@ -43,7 +43,7 @@ describe("Can do what the readme says", () => {
                 plain: "The password you want to use for timings",
                 statusCallback: (t: argon2.Measurement.Timing) => {
                     // This is called whenever a timing is generated
-                    // This is the default status callback, a console log with info
+                    // This logs some info to the console, calibration is silent by default
                     const ms = `Hashed in ${t.computeTimeMs}ms.`;
                     const hc = `Cost: ${t.hashCost}.`;
                     const pc = `P: ${t.options.parallelism}.`;
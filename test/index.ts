@@ -2,6 +2,18 @@ import * as mocha from "mocha";
 import * as chai from "chai";
 import * as argon2 from "../src/index";
 import * as _ from "lodash";
+import * as crypto from "crypto";
+import * as fs from "fs";
+import * as os from "os";
+import * as path from "path";
+
+function removeDirectory(dir: string): void {
+    fs.readdirSync(dir).forEach(name => {
+        const file = path.join(dir, name);
+        return fs.statSync(file).isDirectory() ? removeDirectory(file) : fs.unlinkSync(file);
+    });
+    fs.rmdirSync(dir);
+}
 
 describe("Argon2TheMax", () => {
     it("can turn it to 11 hundred", async function (): Promise<any> {
@@ -67,4 +79,840 @@ describe("Argon2TheMax", () => {
 
         chai.assert.isNotNull(await argon2.hash("password", salt, options));
     });
-});
\ No newline at end of file
+
+    it("uses a saved calibration profile when the host fingerprint matches", async function (): Promise<any> {
+        const profilePath = path.join(os.tmpdir(), `argon2themax-profile-${process.pid}.json`);
+        const timingStrategy = argon2.Measurement.getTimingStrategy(argon2.Measurement.TimingStrategyType.ClosestMatch);
+        const selectionStrategy = argon2.Selection.getSelectionStrategy(argon2.Selection.SelectionStrategyType.MaxCost);
+        const fingerprint = argon2.Profile.getFingerprint(
+            argon2.Measurement.defaultTimingOptions.type, timingStrategy.name, selectionStrategy.name);
+
+        chai.assert.isUndefined(await argon2.Profile.load(profilePath), "A missing profile should load as undefined");
+
+        const profiledOptions: argon2.Options = { memoryCost: 13, timeCost: 7, parallelism: 3, type: argon2.argon2i };
+        await argon2.Profile.save(profilePath, {
+            fingerprint: fingerprint,
+            maxTimeMs: 4321,
+            createdAt: new Date().toISOString(),
+            timingResult: {
+                timings: [{ options: profiledOptions, computeTimeMs: 4000, hashCost: 13 * 7 * 3 }]
+            }
+        });
+
+        const profile = await argon2.Profile.load(profilePath);
+        chai.assert.isTrue(argon2.Profile.isValid(profile, fingerprint, 4321));
+        chai.assert.isFalse(argon2.Profile.isValid(profile, fingerprint, 5000),
+            "A profile measured for less time than requested should be re-measured");
+        chai.assert.isFalse(argon2.Profile.isValid(profile, _.assign({}, fingerprint, { cpuCount: fingerprint.cpuCount + 1 }), 4321),
+            "A profile from different hardware should be re-measured");
+        chai.assert.isFalse(argon2.Profile.isValid(profile, argon2.Profile.getFingerprint(
+                argon2.Measurement.defaultTimingOptions.type, timingStrategy.name, selectionStrategy.name, 1, 64 * 1024 * 1024), 4321),
+            "A profile from before the memory limit shrank should be re-measured");
+
+        const options = await argon2.getMaxOptionsWithStrategies(4321, timingStrategy, selectionStrategy, { profilePath: profilePath });
+        chai.assert.deepEqual(options, profiledOptions, "The options should come from the saved profile");
+
+        fs.unlinkSync(profilePath);
+    });
+
+    it("can convert hashes to records and a compact format and back", async function (): Promise<any> {
+        this.timeout(0);
+
+        const salt = await argon2.generateSalt();
+        const hash = await argon2.hash("password", salt, argon2.defaults);
+        const record = argon2.HashRecord.parse(hash);
+        chai.assert.deepEqual(_.omit(record, ["salt", "hash"]), argon2.getHashParameters(hash));
+        chai.assert.strictEqual(argon2.HashRecord.format(record), hash);
+
+        const compact = argon2.HashRecord.compact(hash);
+        chai.assert.strictEqual(compact[0], argon2.HashRecord.compactVersion);
+        chai.assert.isBelow(compact.length, hash.length);
+        chai.assert.deepEqual(argon2.HashRecord.fromBuffer(compact), record);
+        chai.assert.isTrue(await argon2.verify(argon2.HashRecord.expand(compact), "password"));
+        chai.assert.isFalse(await argon2.verify(argon2.HashRecord.expand(compact), "wrong"));
+
+        chai.assert.strictEqual(argon2.HashRecord.format(argon2.HashRecord.create(record.hash, record.salt, record)), hash);
+
+        const partial = argon2.HashRecord.create(record.hash, record.salt, { type: record.type });
+        chai.assert.strictEqual(argon2.HashRecord.format(partial), hash, "Options left out are the defaults");
+        const raw = await argon2.HashRecord.hash("password", salt, { type: argon2.argon2id });
+        chai.assert.include(argon2.HashRecord.format(raw), "$argon2id$v=19$m=4096,t=3,p=1$");
+        chai.assert.isTrue(await argon2.verify(argon2.HashRecord.format(raw), "password"));
+
+        const unversioned = "$argon2i$m=3000,t=2,p=3$c2FsdHNhbHQ$aGFzaGhhc2hoYXNo";
+        chai.assert.strictEqual(argon2.HashRecord.expand(argon2.HashRecord.compact(unversioned)), unversioned);
+        chai.assert.throws(() => argon2.HashRecord.parse("$argon2i$v=19$m=4096,t=3,p=1$c2FsdA"), "Unrecognized");
+        chai.assert.throws(() => argon2.HashRecord.fromBuffer(Buffer.concat([Buffer.from([2]), compact.slice(1)])), "version 2");
+        chai.assert.throws(() => argon2.HashRecord.fromBuffer(compact.slice(0, 20)), "too short");
+    });
+
+    it("knows when a hash needs to be upgraded", async function (): Promise<any> {
+        const stored = "$argon2i$v=19$m=4096,t=3,p=4$c29tZXNhbHQ$iWh06vD8Fy27wf9npn6FXWiCX4K6pW6Ue1Bnzz07Z8A";
+
+        chai.assert.deepEqual(argon2.getHashParameters(stored),
+            { type: argon2.argon2i, version: 19, memoryCost: 12, timeCost: 3, parallelism: 4 });
+        chai.assert.strictEqual(argon2.getHashParameters("$argon2d$m=1024,t=1,p=1$c29tZXNhbHQ$aGFzaA").version, 16);
+        chai.assert.throws(() => argon2.getHashParameters("$2a$10$notanargon2hash"));
+
+        const same: argon2.Options = { type: argon2.argon2i, memoryCost: 12, timeCost: 3, parallelism: 4 };
+        chai.assert.isFalse(argon2.needsRehash(stored, same));
+        chai.assert.isFalse(argon2.needsRehash(stored, _.assign({}, same, { memoryCost: 11, timeCost: 2 })),
+            "Weaker target options should not cause a rehash");
+        chai.assert.isTrue(argon2.needsRehash(stored, _.assign({}, same, { memoryCost: 13 })));
+        chai.assert.isTrue(argon2.needsRehash(stored, _.assign({}, same, { timeCost: 4 })));
+        chai.assert.isTrue(argon2.needsRehash(stored, _.assign({}, same, { parallelism: 2 })));
+        chai.assert.isTrue(argon2.needsRehash(stored, _.assign({}, same, { type: argon2.argon2id })));
+        chai.assert.isFalse(argon2.needsRehash("$argon2i$v=19$m=65536,t=3,p=1$c29tZXNhbHQ$aGFzaA", { timeCost: 3, parallelism: 1 }),
+            "Memory left out of the target is the default, 2^12 KiB");
+
+        const salt = await argon2.generateSalt();
+        const hash = await argon2.hash("password", salt);
+        chai.assert.deepEqual(argon2.getHashParameters(hash),
+            { type: argon2.argon2i, version: 19, memoryCost: 12, timeCost: 3, parallelism: 1 });
+        const stronger = _.assign({}, argon2.getHashParameters(hash), { memoryCost: 13, timeCost: 5, parallelism: 2 });
+
+        const upgraded = await argon2.verifyAndUpgrade(hash, "password", stronger);
+        chai.assert.isTrue(upgraded.match);
+        chai.assert.deepEqual(argon2.getHashParameters(upgraded.newHash), stronger, "The new hash is made with the stronger options");
+        chai.assert.isFalse(argon2.needsRehash(upgraded.newHash, stronger));
+        chai.assert.isTrue(await argon2.verify(upgraded.newHash, "password"));
+
+        chai.assert.deepEqual(await argon2.verifyAndUpgrade(hash, "password", argon2.getHashParameters(hash)), { match: true });
+        chai.assert.deepEqual(await argon2.verifyAndUpgrade(hash, "wrong", stronger), { match: false });
+    });
+
+    it("can bisect to the max options", async function (): Promise<any> {
+        this.timeout(0);
+
+        const result = await argon2.Measurement.generateTimings(
+            { maxTimeMs: 250 },
+            argon2.Measurement.getTimingStrategy(argon2.Measurement.TimingStrategyType.Bisection));
+
+        console.log(`Found ${result.timings.length} timings.`);
+        chai.assert.isTrue(result.timings.length > 0, "No timings generated");
+
+        const selector = argon2.Selection.getSelectionStrategy(
+            argon2.Selection.SelectionStrategyType.MaxCost);
+        selector.initialize(result);
+
+        const selected = selector.select(250);
+        chai.assert.isNotNull(selected);
+        chai.assert.isTrue(selected.computeTimeMs <= 250 || selected === selector.fastest(),
+            "The selected timing should fit in the budget unless nothing did");
+    });
+
+    it("can select on a percentile of repeated samples", function (): void {
+        const stats = argon2.Measurement.getTimingStats([10, 50, 20, 30, 40]);
+        chai.assert.strictEqual(stats.minMs, 10);
+        chai.assert.strictEqual(stats.medianMs, 30);
+        chai.assert.closeTo(stats.p95Ms, 48, 0.0001);
+        chai.assert.closeTo(stats.stdDevMs, Math.sqrt(200), 0.0001);
+
+        const steady: argon2.Measurement.Timing = {
+            options: { memoryCost: 12, timeCost: 3, parallelism: 2 },
+            computeTimeMs: 80,
+            hashCost: 72,
+            stats: argon2.Measurement.getTimingStats([78, 80, 82])
+        };
+        const spiky: argon2.Measurement.Timing = {
+            options: { memoryCost: 13, timeCost: 3, parallelism: 2 },
+            computeTimeMs: 90,
+            hashCost: 78,
+            stats: argon2.Measurement.getTimingStats([85, 90, 250])
+        };
+        const result = { timings: [steady, spiky] };
+
+        const median = argon2.Selection.getSelectionStrategy(argon2.Selection.SelectionStrategyType.MaxCost);
+        median.initialize(result);
+        chai.assert.strictEqual(median.select(100), spiky);
+
+        const p95 = argon2.Selection.getSelectionStrategy(argon2.Selection.SelectionStrategyType.MaxCost, 95);
+        p95.initialize(result);
+        chai.assert.strictEqual(p95.select(100), steady, "The p95 of the spiky timing is over budget");
+        chai.assert.strictEqual(p95.slowest(), spiky);
+    });
+
+    it("can time concurrent hashes", async function (): Promise<any> {
+        this.timeout(0);
+
+        const result = await argon2.Measurement.generateTimings(
+            { maxTimeMs: 100, samples: 2, concurrency: 3 },
+            argon2.Measurement.getTimingStrategy(argon2.Measurement.TimingStrategyType.Bisection));
+
+        chai.assert.isTrue(result.timings.length > 0, "No timings generated");
+        result.timings.forEach(timing => {
+            chai.assert.lengthOf(timing.stats.samplesMs, 6, "Every concurrent hash in every round should be a sample");
+            chai.assert.isTrue(timing.hashesPerSecond > 0);
+        });
+    });
+
+    it("respects cgroup and configured resource limits", async function (): Promise<any> {
+        const v2Root = fs.mkdtempSync(path.join(os.tmpdir(), "argon2themax-cgroup2-"));
+        const v1Root = fs.mkdtempSync(path.join(os.tmpdir(), "argon2themax-cgroup1-"));
+
+        try {
+            fs.writeFileSync(path.join(v2Root, "memory.max"), "536870912\n");
+            fs.writeFileSync(path.join(v2Root, "cpu.max"), "150000 100000\n");
+            chai.assert.strictEqual(argon2.Resources.getCgroupMemoryLimit(v2Root), 536870912);
+            chai.assert.strictEqual(argon2.Resources.getCgroupCpuLimit(v2Root), 2);
+
+            fs.writeFileSync(path.join(v2Root, "memory.current"), "520093696\n");
+            chai.assert.strictEqual(argon2.Resources.getAvailableMemory(v2Root), 16777216, "What is left under the cgroup limit");
+
+            fs.writeFileSync(path.join(v2Root, "memory.max"), "max\n");
+            fs.writeFileSync(path.join(v2Root, "cpu.max"), "max 100000\n");
+            chai.assert.strictEqual(argon2.Resources.getCgroupMemoryLimit(v2Root), Infinity);
+            chai.assert.strictEqual(argon2.Resources.getCgroupCpuLimit(v2Root), Infinity);
+
+            fs.mkdirSync(path.join(v1Root, "memory"));
+            fs.mkdirSync(path.join(v1Root, "cpu"));
+            fs.writeFileSync(path.join(v1Root, "memory", "memory.limit_in_bytes"), "1073741824\n");
+            fs.writeFileSync(path.join(v1Root, "cpu", "cpu.cfs_quota_us"), "-1\n");
+            fs.writeFileSync(path.join(v1Root, "cpu", "cpu.cfs_period_us"), "100000\n");
+            chai.assert.strictEqual(argon2.Resources.getCgroupMemoryLimit(v1Root), 1073741824);
+            chai.assert.strictEqual(argon2.Resources.getCgroupCpuLimit(v1Root), Infinity);
+
+            const limits = argon2.Resources.getResourceLimits(path.join(v1Root, "missing"));
+            chai.assert.strictEqual(limits.memoryBytes, os.totalmem(), "No cgroup means the host limits");
+            chai.assert.strictEqual(limits.cpuCount, os.cpus().length);
+
+            const strategy = new argon2.Measurement.BisectionStrategy();
+            const context: argon2.Measurement.TimingContext = {
+                strategy: strategy,
+                accumulatedTimeMs: 0,
+                timingOptions: { maxMemoryBytes: 64 * 1024 * 1024, maxParallelism: 1, concurrency: 2 },
+                startingOptions: {},
+                data: {},
+                pendingResult: { timings: [] }
+            };
+            strategy.onBeforeStart(context);
+            chai.assert.strictEqual(context.startingOptions.parallelism, 1);
+            chai.assert.strictEqual(context.data.memoryCostMax, 15, "64MB split between two hashes is 2^15 KB each");
+
+            const capped = await argon2.Measurement.generateTimings({
+                maxTimeMs: 100,
+                maxMemoryBytes: 16 * 1024 * 1024,
+                backend: new argon2.Backend.SimulatedBackend({ msPerWorkUnit: 0.0001 })
+            }, argon2.Measurement.getTimingStrategy(argon2.Measurement.TimingStrategyType.ClosestMatch));
+            chai.assert.strictEqual(_.max(_.map(capped.timings, t => t.options.memoryCost)), 14, "16MB is 2^14 KB");
+        } finally {
+            [v2Root, v1Root].forEach(removeDirectory);
+        }
+    });
+
+    it("queues hashes beyond the concurrency limit", async function (): Promise<any> {
+        this.timeout(0);
+
+        const sized = new argon2.Hasher({ timeCost: 3 });
+        chai.assert.closeTo(sized.maxConcurrency,
+            Math.max(Math.floor(argon2.Resources.getAvailableMemory() / (4096 * 1024)), 1), 1,
+            "Without a memoryCost, each hash takes the default 4MB of the free memory");
+
+        const hasher = new argon2.Hasher(argon2.defaults, { maxConcurrency: 1, maxQueueLength: 1 });
+        const first = hasher.hash("password");
+        const second = hasher.hash("password");
+        chai.assert.strictEqual(hasher.stats().active, 1);
+        chai.assert.strictEqual(hasher.stats().queued, 1);
+
+        try {
+            await hasher.hash("password");
+            chai.assert.fail("The third hash should not fit in the queue");
+        } catch (e) {
+            chai.assert.strictEqual(e.code, "QUEUE_FULL");
+        }
+
+        chai.assert.isTrue(await hasher.verify(await second, "password"));
+        await first;
+
+        const stats = hasher.stats();
+        chai.assert.strictEqual(stats.active, 0);
+        chai.assert.strictEqual(stats.queued, 0);
+        chai.assert.strictEqual(stats.completed, 3);
+        chai.assert.strictEqual(stats.rejected, 1);
+        chai.assert.isTrue(stats.maxWaitMs >= 0);
+
+        const impatient = new argon2.Hasher(argon2.defaults, { maxConcurrency: 1, queueTimeoutMs: 0 });
+        const running = impatient.hash("password");
+        try {
+            await impatient.hash("password");
+            chai.assert.fail("The queued hash should time out");
+        } catch (e) {
+            chai.assert.strictEqual(e.code, "QUEUE_TIMEOUT");
+        }
+        await running;
+        chai.assert.strictEqual(impatient.stats().timedOut, 1);
+    });
+
+    it("emits events when the latency drifts past the target", async function (): Promise<any> {
+        const monitor = new argon2.LatencyMonitor(argon2.defaults, { maxMs: 100, windowSize: 10, minSamples: 5 });
+        const events: string[] = [];
+        monitor.on("drift", (e: { p95Ms: number }) => events.push(`drift ${Math.round(e.p95Ms)}`));
+        monitor.on("recovered", () => events.push("recovered"));
+
+        [50, 50, 50, 50].forEach(ms => monitor.record(ms));
+        monitor.record(500);
+        chai.assert.deepEqual(events, ["drift 410"], "Drift is judged once the window has enough samples");
+
+        monitor.record(500);
+        chai.assert.lengthOf(events, 1, "Drift is only reported once until it recovers");
+
+        _.times(10, () => monitor.record(60));
+        chai.assert.deepEqual(events, ["drift 410", "recovered"]);
+        chai.assert.strictEqual(monitor.p95(), 60);
+
+        const hash = await monitor.hash("password");
+        chai.assert.isTrue(await monitor.verify(hash, "password"));
+
+        // A simulated backend can't be isolated, so this recalibration fails
+        const failing = new argon2.LatencyMonitor(argon2.defaults, {
+            maxMs: 100, windowSize: 10, minSamples: 1, recalibrate: true,
+            settings: { isolation: "worker", backend: new argon2.Backend.SimulatedBackend() }
+        });
+        const failed = new Promise<Error>(resolve => failing.on("recalibration-failed", resolve));
+        failing.record(500);
+        chai.assert.include((await failed).message, "isolation", "A failed recalibration doesn't emit an error that crashes the process");
+        chai.assert.deepEqual(failing.options, argon2.defaults);
+    });
+
+    it("can pepper hashes and rotate keys", async function (): Promise<any> {
+        this.timeout(0);
+
+        const oldKey = { id: "2016", secret: "the old secret" };
+        const newKey = { id: "2017", secret: "the new secret" };
+        const oldRing = new argon2.Pepper.Keyring([oldKey]);
+        const ring = new argon2.Pepper.Keyring([oldKey, newKey]);
+        chai.assert.strictEqual(ring.currentKey, newKey);
+
+        const salt = await argon2.generateSalt();
+        const oldHash = await oldRing.hash("password", salt, argon2.defaults);
+        chai.assert.strictEqual(argon2.Pepper.getKeyId(oldHash), "2016");
+        chai.assert.isFalse(await argon2.verify(argon2.Pepper.getArgon2Hash(oldHash), "password"),
+            "A peppered hash should not verify without the pepper");
+
+        chai.assert.isTrue(await ring.verify(oldHash, "password"));
+        chai.assert.isFalse(await ring.verify(oldHash, "wrong"));
+
+        const options = argon2.getHashParameters(argon2.Pepper.getArgon2Hash(oldHash));
+        chai.assert.isTrue(ring.needsRehash(oldHash, options), "Hashes under an old key should be rehashed");
+
+        const upgraded = await ring.verifyAndUpgrade(oldHash, "password", options);
+        chai.assert.isTrue(upgraded.match);
+        chai.assert.strictEqual(argon2.Pepper.getKeyId(upgraded.newHash), "2017");
+        chai.assert.isFalse(ring.needsRehash(upgraded.newHash, options));
+        chai.assert.deepEqual(await ring.verifyAndUpgrade(upgraded.newHash, "password", options), { match: true });
+
+        const plainHash = await argon2.hash("password", salt);
+        chai.assert.isTrue(await ring.verify(plainHash, "password"), "Hashes without pepper should still verify");
+        chai.assert.isTrue(ring.needsRehash(plainHash, options));
+
+        try {
+            await oldRing.verify(upgraded.newHash, "password");
+            chai.assert.fail("A hash under an unknown key should not verify");
+        } catch (e) {
+            chai.assert.include(e.message, "2017");
+        }
+    });
+
+    it("never selects options below the security policy", function (): void {
+        const weak: argon2.Measurement.Timing = {
+            options: { memoryCost: 12, timeCost: 3, parallelism: 2, type: argon2.argon2id },
+            computeTimeMs: 20,
+            hashCost: 72
+        };
+        const strong: argon2.Measurement.Timing = {
+            options: { memoryCost: 15, timeCost: 2, parallelism: 2, type: argon2.argon2id },
+            computeTimeMs: 150,
+            hashCost: 60
+        };
+        const result = { timings: [weak, strong] };
+
+        chai.assert.lengthOf(argon2.Policy.getViolations(weak.options, argon2.Policy.recommended), 1);
+        chai.assert.isTrue(argon2.Policy.isCompliant(strong.options, argon2.Policy.recommended));
+        chai.assert.lengthOf(argon2.Policy.getViolations({ type: argon2.argon2id, timeCost: 2 }, argon2.Policy.recommended), 1,
+            "Missing memory doesn't meet a minimum");
+        chai.assert.lengthOf(argon2.Policy.getViolations({ type: argon2.argon2id, timeCost: 2, memoryCost: 4096 }, argon2.Policy.recommended), 1,
+            "Memory in KiB instead of a power of two doesn't meet a minimum either");
+        chai.assert.lengthOf(argon2.Policy.getViolations(argon2.defaults, { minMemoryKiB: 19456 }), 1, "The default 4MB is too little");
+        chai.assert.lengthOf(argon2.Policy.getViolations(_.assign({}, strong.options, { type: argon2.argon2i }), argon2.Policy.recommended), 1);
+
+        const selector = argon2.Selection.getSelectionStrategy(
+            argon2.Selection.SelectionStrategyType.MaxCost, undefined, argon2.Policy.recommended);
+        selector.initialize(result);
+        chai.assert.strictEqual(selector.select(200), strong);
+
+        try {
+            selector.select(100);
+            chai.assert.fail("Nothing that meets the policy fits in 100ms");
+        } catch (e) {
+            const err = <argon2.Policy.PolicyError> e;
+            chai.assert.strictEqual(err.code, "POLICY_UNSATISFIED");
+            chai.assert.strictEqual(err.report.selectedWithoutPolicy, weak);
+            chai.assert.strictEqual(err.report.fastestCompliant, strong);
+            chai.assert.lengthOf(err.report.violations, 1);
+        }
+
+        const unchecked = argon2.Selection.getSelectionStrategy(argon2.Selection.SelectionStrategyType.MaxCost);
+        unchecked.initialize(result);
+        chai.assert.strictEqual(unchecked.select(10), weak, "Without a policy the fastest timing is still the fallback");
+    });
+
+    it("can cancel calibration or limit how long it takes", async function (): Promise<any> {
+        this.timeout(0);
+
+        const bisection = () => argon2.Measurement.getTimingStrategy(argon2.Measurement.TimingStrategyType.Bisection);
+
+        const cancelled = await argon2.Measurement.generateTimings({ signal: { aborted: true } }, bisection());
+        chai.assert.isTrue(cancelled.incomplete);
+        chai.assert.strictEqual(cancelled.stopReason, "aborted");
+        chai.assert.lengthOf(cancelled.timings, 0);
+
+        const signal = { aborted: false };
+        const aborted = await argon2.Measurement.generateTimings({
+            maxTimeMs: 10000,
+            signal: signal,
+            statusCallback: t => {
+                signal.aborted = true;
+                return true;
+            }
+        }, bisection());
+        chai.assert.strictEqual(aborted.stopReason, "aborted");
+        chai.assert.lengthOf(aborted.timings, 1, "The run should stop before the next hash");
+
+        const budgeted = await argon2.Measurement.generateTimings({ maxTimeMs: 10000, maxCalibrationMs: 50 }, bisection());
+        chai.assert.isTrue(budgeted.incomplete);
+        chai.assert.strictEqual(budgeted.stopReason, "budget");
+
+        const stopped = await argon2.Measurement.generateTimings({ maxTimeMs: 10000, statusCallback: t => false }, bisection());
+        chai.assert.strictEqual(stopped.stopReason, "callback");
+        chai.assert.lengthOf(stopped.timings, 1);
+    });
+
+    it("can search parallelism and select from the pareto frontier", async function (): Promise<any> {
+        this.timeout(0);
+
+        // Simulated hashes, where parallelism helps up to 4 lanes
+        class SimulatedParallelismSearch extends argon2.Measurement.ParallelismSearchStrategy {
+            applyResourceLimits(context: argon2.Measurement.TimingContext): void {
+                context.data.parallelism = 8;
+                context.data.memoryCostMax = 16;
+            }
+
+            onBeforeStart(context: argon2.Measurement.TimingContext): void {
+                super.onBeforeStart(context);
+                context.startingOptions.memoryCost = 12;
+                context.startingOptions.timeCost = 1;
+            }
+
+            async timeHash(context: argon2.Measurement.TimingContext, salt: Buffer, options: argon2.Options): Promise<number> {
+                return Math.pow(2, options.memoryCost - 12) * options.timeCost * 10 / Math.min(options.parallelism, 4);
+            }
+        }
+
+        const strategy = new SimulatedParallelismSearch();
+        const result = await strategy.run(_.extend({}, argon2.Measurement.defaultTimingOptions,
+            { maxTimeMs: 100, statusCallback: (): boolean => true }));
+
+        const parallelisms = _.uniq(_.map(result.timings, t => t.options.parallelism));
+        chai.assert.deepEqual(parallelisms, [1, 2, 4, 8]);
+
+        const selector = argon2.Selection.getSelectionStrategy(argon2.Selection.SelectionStrategyType.Pareto);
+        selector.initialize(result);
+        const selected = selector.select(100);
+        chai.assert.isTrue(selected.computeTimeMs <= 100);
+        const getWork = (t: argon2.Measurement.Timing) => Math.pow(2, t.options.memoryCost) * t.options.timeCost;
+        chai.assert.strictEqual(getWork(selected), _.max(_.map(_.filter(result.timings, t => t.computeTimeMs <= 100), getWork)),
+            "Lanes split the memory, so the most work is the most memory and passes");
+
+        const pareto = new argon2.Selection.ParetoSelectionStrategy();
+        const slowWeak = { options: { memoryCost: 12, timeCost: 2, parallelism: 2 }, computeTimeMs: 90, hashCost: 48 };
+        const fastStrong = { options: { memoryCost: 14, timeCost: 2, parallelism: 2 }, computeTimeMs: 80, hashCost: 56 };
+        const fastWeak = { options: { memoryCost: 12, timeCost: 1, parallelism: 2 }, computeTimeMs: 10, hashCost: 24 };
+        chai.assert.deepEqual(pareto.getSortedTimings([slowWeak, fastStrong, fastWeak]), [fastWeak, fastStrong],
+            "A timing that is slower and weaker than another is not on the frontier");
+
+        const bigFast = { options: { memoryCost: 16, timeCost: 3, parallelism: 1 }, computeTimeMs: 50, hashCost: 48 };
+        const smallParallel = { options: { memoryCost: 12, timeCost: 3, parallelism: 8 }, computeTimeMs: 60, hashCost: 288 };
+        pareto.initialize({ timings: [bigFast, smallParallel] });
+        chai.assert.strictEqual(pareto.select(100), bigFast, "64MiB in 50ms beats 4MiB in 60ms, however many lanes");
+    });
+
+    it("can calibrate against a simulated backend", async function (): Promise<any> {
+        const run = (seed: number) => argon2.Measurement.generateTimings({
+                maxTimeMs: 100,
+                backend: new argon2.Backend.SimulatedBackend({ msPerWorkUnit: 0.001, noise: 0.05, seed: seed })
+            }, new argon2.Measurement.BisectionStrategy());
+
+        const first = await run(7);
+        const second = await run(7);
+        chai.assert.isAbove(first.timings.length, 1);
+        chai.assert.deepEqual(_.map(second.timings, t => t.computeTimeMs), _.map(first.timings, t => t.computeTimeMs),
+            "The same seed gives the same timings");
+        chai.assert.notDeepEqual(_.map((await run(8)).timings, t => t.computeTimeMs), _.map(first.timings, t => t.computeTimeMs));
+
+        const backend = new argon2.Backend.SimulatedBackend({ interceptMs: 2, msPerWorkUnit: 0.01, cpuCount: 2 });
+        chai.assert.strictEqual(backend.getComputeTimeMs({ memoryCost: 10, timeCost: 3, parallelism: 4 }), 2 + 0.01 * 1024 * 3 / 2);
+        chai.assert.strictEqual(await backend.timeHash("password", Buffer.alloc(16), { memoryCost: 10, timeCost: 3, parallelism: 4 }),
+            2 + 0.01 * 1024 * 3 / 2, "Without noise the time is the cost model's");
+
+        const simulated = new argon2.Backend.SimulatedBackend();
+        const closest = await argon2.getMaxOptions(100,
+            argon2.Measurement.TimingStrategyType.ClosestMatch, argon2.Selection.SelectionStrategyType.MaxCost,
+            { backend: simulated });
+        chai.assert.isAtMost(simulated.getComputeTimeMs(closest), 100, "A stock strategy finds options that fit");
+
+        const broken = new argon2.Backend.SimulatedBackend();
+        broken.getComputeTimeMs = () => Infinity;
+        let error: Error;
+        try {
+            await argon2.Measurement.generateTimings({ maxTimeMs: 100, backend: broken }, new argon2.Measurement.ClosestMatchStrategy());
+        } catch (err) {
+            error = err;
+        }
+        chai.assert.include(error.message, "simulated backend timed a hash at Infinityms");
+    });
+
+    it("can report on each variant for several budgets", async function (): Promise<any> {
+        const report = await argon2.Report.generate({
+            budgets: [100, 50],
+            timingStrategy: new argon2.Measurement.BisectionStrategy(),
+            timingOptions: { backend: new argon2.Backend.SimulatedBackend({ msPerWorkUnit: 0.001 }) }
+        });
+
+        chai.assert.deepEqual(report.budgets, [50, 100]);
+        chai.assert.deepEqual(_.map(report.variants, v => v.typeName), ["argon2d", "argon2i", "argon2id"]);
+        report.variants.forEach(variant => {
+            chai.assert.deepEqual(_.map(variant.selections, s => s.maxTimeMs), [50, 100]);
+            variant.selections.forEach(selection => {
+                chai.assert.isAtMost(selection.computeTimeMs, selection.maxTimeMs);
+                chai.assert.strictEqual(selection.memoryKiB, Math.pow(2, selection.options.memoryCost));
+                // argon2 defaults are 4096KiB x 3 passes, and lanes split the memory rather than add to it
+                chai.assert.strictEqual(selection.uplift, Math.pow(2, selection.options.memoryCost) * selection.options.timeCost / 12288);
+            });
+            chai.assert.isAtLeast(variant.maxMemoryKiB, _.last(variant.selections).memoryKiB);
+        });
+
+        const markdown = argon2.Report.toMarkdown(report);
+        chai.assert.include(markdown, "| Type | Budget ms |");
+        chai.assert.include(markdown, "| argon2id | 100 |");
+        chai.assert.include(argon2.Report.toHtml(report), "<td>argon2d</td><td>50</td>");
+
+        const basePath = path.join(os.tmpdir(), `argon2themax-report-${process.pid}`);
+        const files = await argon2.Report.save(basePath, report);
+        chai.assert.deepEqual(files, [basePath + ".json", basePath + ".md", basePath + ".html"]);
+        chai.assert.strictEqual(fs.readFileSync(files[0], "utf8"), argon2.Report.toJson(report));
+        chai.assert.deepEqual(JSON.parse(fs.readFileSync(files[0], "utf8")).defaults,
+            { options: { memoryCost: 12, timeCost: 3, parallelism: 1 }, hashCost: 36, memoryKiB: 4096, work: 12288 });
+        files.forEach(file => fs.unlinkSync(file));
+    });
+
+    it("can predict the compute time of options that weren't measured", async function (): Promise<any> {
+        this.timeout(0);
+
+        const timing = (memoryCost: number, timeCost: number): argon2.Measurement.Timing => {
+            const options = { memoryCost: memoryCost, timeCost: timeCost, parallelism: 2, type: argon2.argon2i };
+            return {
+                options: options,
+                computeTimeMs: 5 + 0.01 * argon2.Model.getWorkUnits(options),
+                hashCost: memoryCost * timeCost * 2
+            };
+        };
+        const model = argon2.Model.fit({ timings: [timing(12, 1), timing(12, 3), timing(13, 2), timing(14, 2)] });
+
+        chai.assert.closeTo(model.interceptMs, 5, 0.0001);
+        chai.assert.closeTo(model.msPerWorkUnit, 0.01, 0.0001);
+        chai.assert.closeTo(model.predict({ memoryCost: 14, timeCost: 5, parallelism: 2 }), 5 + 0.01 * 16384 * 5 / 2, 0.0001);
+        chai.assert.closeTo(model.estimateVerifyMs("$argon2i$v=19$m=8192,t=4,p=2$c29tZXNhbHQ$aGFzaA"), 5 + 0.01 * 8192 * 4 / 2, 0.0001);
+
+        const selected = model.select(500);
+        chai.assert.strictEqual(selected.options.memoryCost, 14, "The most memory measured should be used first");
+        chai.assert.strictEqual(selected.options.timeCost, 6);
+        chai.assert.strictEqual(selected.options.parallelism, 2);
+        chai.assert.isTrue(selected.computeTimeMs <= 500);
+
+        const tooFast = model.select(1);
+        chai.assert.deepEqual(_.pick(tooFast.options, ["memoryCost", "timeCost"]), { memoryCost: 12, timeCost: 1 });
+        chai.assert.isTrue(tooFast.computeTimeMs > 1);
+
+        const confirmed = await argon2.Model.confirm(timing(12, 1));
+        chai.assert.isTrue(confirmed.computeTimeMs > 0);
+    });
+
+    it("can fit a model to a real calibration", async function (): Promise<any> {
+        this.timeout(0);
+
+        const result = await argon2.Measurement.generateTimings({ maxTimeMs: 30 },
+            argon2.Measurement.getTimingStrategy(argon2.Measurement.TimingStrategyType.Bisection));
+        const model = argon2.Model.fit(result);
+        chai.assert.isAbove(model.msPerWorkUnit, 0);
+        chai.assert.isTrue(isFinite(model.msPerWorkUnit) && isFinite(model.interceptMs));
+
+        const slowest = _.maxBy(result.timings, t => argon2.Model.getWorkUnits(t.options));
+        chai.assert.isTrue(model.predict(slowest.options) > model.predict(_.head(result.timings).options),
+            "More memory and time is predicted to take longer");
+
+        const selected = model.select(30);
+        chai.assert.isTrue(selected.computeTimeMs <= 30);
+        chai.assert.isAtLeast(selected.options.memoryCost, model.minMemoryCost);
+        chai.assert.isAtMost(selected.options.memoryCost, model.maxMemoryCost);
+
+        const confirmed = await argon2.Model.confirm(selected);
+        chai.assert.isAbove(confirmed.computeTimeMs, 0);
+    });
+
+    it("can select for several budgets from one calibration", async function (): Promise<any> {
+        // Times every timeCost up to the max time, counting how many times it is run
+        class CountingStrategy implements argon2.Measurement.TimingStrategy {
+            runs: argon2.Measurement.TimingOptions[] = [];
+
+            constructor(public name: string) {
+            }
+
+            async run(options: argon2.Measurement.TimingOptions): Promise<argon2.Measurement.TimingResult> {
+                this.runs.push(options);
+                await new Promise(resolve => setTimeout(resolve, 10));
+
+                return {
+                    timings: _.times(options.maxTimeMs / 50, i => ({
+                        options: { memoryCost: 12, timeCost: i + 1, parallelism: 1 },
+                        computeTimeMs: (i + 1) * 50,
+                        hashCost: 12 * (i + 1)
+                    }))
+                };
+            }
+        }
+
+        const selection = () => argon2.Selection.getSelectionStrategy(argon2.Selection.SelectionStrategyType.MaxCost);
+
+        const budgetStrategy = new CountingStrategy("counting-budgets");
+        const options = await argon2.getMaxOptionsForBudgetsWithStrategies([100, 1000], budgetStrategy, selection());
+        chai.assert.lengthOf(budgetStrategy.runs, 1);
+        chai.assert.strictEqual(budgetStrategy.runs[0].maxTimeMs, 1000, "Calibration should be sized to the largest budget");
+        chai.assert.strictEqual(options[100].timeCost, 2);
+        chai.assert.strictEqual(options[1000].timeCost, 20);
+
+        chai.assert.strictEqual(await argon2.getMaxOptionsWithStrategies(100, budgetStrategy, selection()), options[100]);
+        chai.assert.lengthOf(budgetStrategy.runs, 1, "Each budget should be cached");
+
+        const sharedStrategy = new CountingStrategy("counting-shared");
+        const concurrent = await Promise.all(_.times(3, () => argon2.getMaxOptionsWithStrategies(500, sharedStrategy, selection())));
+        chai.assert.lengthOf(sharedStrategy.runs, 1, "Concurrent callers should share one calibration");
+        chai.assert.deepEqual(concurrent[0], concurrent[2]);
+
+        const startupStrategy = new CountingStrategy("counting-startup");
+        const startup = await Promise.all([
+            argon2.getMaxOptionsWithStrategies(100, startupStrategy, selection()),
+            argon2.getMaxOptionsWithStrategies(1000, startupStrategy, selection())
+        ]);
+        chai.assert.lengthOf(startupStrategy.runs, 1, "Concurrent callers with different budgets should share one calibration");
+        chai.assert.strictEqual(startupStrategy.runs[0].maxTimeMs, 1000);
+        chai.assert.deepEqual(_.map(startup, o => o.timeCost), [2, 20]);
+
+        const listenedStrategy = new CountingStrategy("counting-listened");
+        const listeners = [(): void => undefined, (): void => undefined];
+        await Promise.all(_.map(listeners, listener =>
+            argon2.getMaxOptionsWithStrategies(100, listenedStrategy, selection(), { timingOptions: { eventCallback: listener } })));
+        chai.assert.deepEqual(_.map(listenedStrategy.runs, r => r.eventCallback), listeners,
+            "Callers with their own callbacks should each get their own calibration");
+
+        const unchecked = selection();
+        await argon2.getMaxOptionsWithStrategies(100, startupStrategy, unchecked, { policy: argon2.Policy.recommended })
+            .catch(() => undefined);
+        chai.assert.isUndefined(unchecked.policy, "The caller's selection strategy should not be changed");
+    });
+
+    it("emits typed events while calibrating", async function (): Promise<any> {
+        this.timeout(0);
+
+        const events: argon2.Measurement.CalibrationEvent[] = [];
+        let calibrations = 0;
+        const timingMs: number[] = [];
+        const metrics = argon2.Measurement.createMetricsCallback({
+            calibrations: { inc: () => calibrations++ },
+            timingComputeMs: { observe: ms => timingMs.push(ms) }
+        });
+
+        const result = await argon2.Measurement.generateTimings({
+            maxTimeMs: 100,
+            eventCallback: e => {
+                events.push(e);
+                metrics(e);
+            }
+        }, argon2.Measurement.getTimingStrategy(argon2.Measurement.TimingStrategyType.Bisection));
+
+        const types = _.map(events, "type");
+        chai.assert.deepEqual(types.slice(0, 4), ["start", "warmup", "warmup", "warmup"]);
+        chai.assert.strictEqual(_.last(types), "done");
+        chai.assert.strictEqual(_.filter(types, t => t === "timing").length, result.timings.length);
+        chai.assert.strictEqual(_.filter(types, t => t === "strategy-decision").length, result.timings.length);
+
+        const progress = _.map(events, "progress");
+        chai.assert.deepEqual(progress, _.sortBy(progress), "Progress should never go backwards");
+        chai.assert.strictEqual(_.last(events).progress, 1);
+        chai.assert.strictEqual(_.last(events).etaMs, 0);
+
+        chai.assert.strictEqual(calibrations, 1);
+        chai.assert.deepEqual(timingMs, _.map(result.timings, "computeTimeMs"));
+
+        const aborted: argon2.Measurement.CalibrationEvent[] = [];
+        await argon2.Measurement.generateTimings({ signal: { aborted: true }, eventCallback: e => aborted.push(e) },
+            argon2.Measurement.getTimingStrategy(argon2.Measurement.TimingStrategyType.Bisection));
+        chai.assert.deepEqual(_.map(aborted, "type"), ["start", "aborted"]);
+        chai.assert.strictEqual((<argon2.Measurement.AbortedEvent> aborted[1]).reason, "aborted");
+    });
+
+    it("can verify and migrate PBKDF2 and scrypt hashes", async function (): Promise<any> {
+        this.timeout(0);
+
+        const ab64 = (buffer: Buffer) => buffer.toString("base64").replace(/=+$/, "").replace(/\+/g, ".");
+        const salt = Buffer.from("0123456789abcdef");
+        const django = `pbkdf2_sha256$1000$saltysalt$${crypto.pbkdf2Sync("password", "saltysalt", 1000, 32, "sha256").toString("base64")}`;
+        const passlib = `$pbkdf2-sha512$1000$${ab64(salt)}$${ab64(crypto.pbkdf2Sync("password", salt, 1000, 64, "sha512"))}`;
+        const passlibSha1 = `$pbkdf2$1000$${ab64(salt)}$${ab64(crypto.pbkdf2Sync("password", salt, 1000, 20, "sha1"))}`;
+        const scrypt = `$scrypt$ln=10,r=8,p=1$${ab64(salt)}$${ab64((<any> crypto).scryptSync("password", salt, 32, { N: 1024, r: 8, p: 1 }))}`;
+
+        const registry = argon2.Legacy.createDefaultRegistry();
+        chai.assert.strictEqual(registry.find(django), argon2.Legacy.djangoPbkdf2);
+        chai.assert.strictEqual(registry.find(passlib), argon2.Legacy.passlibPbkdf2);
+        chai.assert.strictEqual(registry.find(scrypt), argon2.Legacy.passlibScrypt);
+
+        for (const legacy of [django, passlib, passlibSha1, scrypt]) {
+            chai.assert.isTrue(await registry.verify(legacy, "password"), legacy);
+            chai.assert.isFalse(await registry.verify(legacy, "wrong"), legacy);
+        }
+
+        const migrated = await registry.verifyAndMigrate(scrypt, "password", argon2.defaults);
+        chai.assert.isTrue(migrated.match);
+        chai.assert.isTrue(await argon2.verify(migrated.newHash, "password"));
+        chai.assert.deepEqual(await registry.verifyAndMigrate(django, "wrong", argon2.defaults), { match: false });
+
+        const options = argon2.getHashParameters(migrated.newHash);
+        chai.assert.deepEqual(await registry.verifyAndMigrate(migrated.newHash, "password", options), { match: true });
+
+        try {
+            await registry.verify("$2a$10$bcryptisnotsupported", "password");
+            chai.assert.fail("An unrecognized hash should not verify");
+        } catch (e) {
+            chai.assert.strictEqual(e.message, "Unrecognized hash format.");
+        }
+
+        const getCode = (promise: Promise<boolean>) => promise.then(() => "verified", e => (<argon2.Guard.GuardError> e).code);
+        chai.assert.strictEqual(await getCode(registry.verify("pbkdf2_sha256$2000000000$saltysalt$aGFzaA==", "password")), "HASH_REJECTED");
+        chai.assert.strictEqual(await getCode(registry.verify(`$scrypt$ln=30,r=8,p=1$${ab64(salt)}$aGFzaA`, "password")), "HASH_REJECTED");
+        chai.assert.strictEqual(await getCode(registry.verify(`$scrypt$ln=10,r=8,p=64$${ab64(salt)}$aGFzaA`, "password")), "HASH_REJECTED");
+
+        const strict = argon2.Legacy.createDefaultRegistry({ maxIterations: 999 });
+        chai.assert.strictEqual(await getCode(strict.verify(passlibSha1, "password")), "HASH_REJECTED");
+        chai.assert.isTrue(await strict.verify(scrypt, "password"), "Limits that aren't given keep their defaults");
+    });
+
+    it("can calibrate in a worker thread or a child process", async function (): Promise<any> {
+        this.timeout(0);
+
+        for (const mode of ["worker", "process"]) {
+            const types: string[] = [];
+            const result = await argon2.Isolation.generateTimings(
+                { maxTimeMs: 50, eventCallback: e => types.push(e.type) },
+                "bisection",
+                <argon2.Isolation.IsolationMode> mode);
+
+            chai.assert.isTrue(result.timings.length > 0, mode);
+            chai.assert.isUndefined(result.incomplete, mode);
+            chai.assert.strictEqual(types[0], "start", mode);
+            chai.assert.strictEqual(_.last(types), "done", mode);
+        }
+
+        const stopped = await argon2.Isolation.generateTimings({ maxTimeMs: 10000, statusCallback: t => false }, "bisection");
+        chai.assert.isTrue(stopped.incomplete);
+        chai.assert.strictEqual(stopped.stopReason, "aborted");
+
+        try {
+            await argon2.Isolation.generateTimings({}, "nonexistent", "process");
+            chai.assert.fail("An unknown strategy should fail");
+        } catch (e) {
+            chai.assert.include(e.message, "nonexistent");
+        }
+    });
+
+    it("rejects hashes out of bounds without verifying them", async function (): Promise<any> {
+        this.timeout(0);
+
+        const salt = await argon2.generateSalt();
+        const hash = await argon2.hash("password", salt, argon2.defaults);
+        const parameters = argon2.getHashParameters(hash);
+        const bounds = argon2.Guard.getBounds(parameters, 2);
+        const tampered = hash.replace(/m=\d+/, `m=${Math.pow(2, parameters.memoryCost) * 4}`);
+
+        const getCode = async (encodedHash: string, plain: string, hashBounds: argon2.Guard.HashBounds) => {
+            try {
+                await argon2.Guard.verify(encodedHash, plain, hashBounds);
+            } catch (e) {
+                return (<argon2.Guard.GuardError> e).code;
+            }
+        };
+
+        chai.assert.isUndefined(await getCode(hash, "password", bounds));
+        chai.assert.strictEqual(await getCode(hash, "wrong", bounds), "PASSWORD_MISMATCH");
+        chai.assert.strictEqual(await getCode(tampered, "password", bounds), "HASH_REJECTED");
+        chai.assert.strictEqual(await getCode("not a hash", "password", bounds), "HASH_REJECTED");
+        chai.assert.strictEqual(await getCode(tampered, "password", argon2.Guard.limitBounds), "PASSWORD_MISMATCH",
+            "limitBounds let the tampered hash through to verify");
+
+        chai.assert.lengthOf(argon2.Guard.getViolations(tampered, bounds), 1);
+        chai.assert.deepEqual(argon2.Guard.getBounds({}, 2), { maxMemoryKiB: 8192, maxTimeCost: 6, maxParallelism: 2 },
+            "Twice the 4096KiB, 3 passes and 1 lane of argon2 defaults");
+        const otherTypes = _.without([argon2.argon2d, argon2.argon2i, argon2.argon2id], parameters.type);
+        chai.assert.lengthOf(argon2.Guard.getViolations(hash, { allowedTypes: otherTypes }), 1);
+        chai.assert.deepEqual(argon2.Guard.getViolations(hash, argon2.Guard.limitBounds), []);
+
+        const onTheBound = "$argon2id$v=19$m=100000,t=3,p=1$c2FsdHNhbHQ$aGFzaGhhc2g";
+        chai.assert.strictEqual(argon2.getHashMemoryKiB(onTheBound), 100000);
+        chai.assert.deepEqual(argon2.Guard.getViolations(onTheBound, { maxMemoryKiB: 100000 }), [],
+            "m isn't a power of two, but a hash exactly on the bound is within it");
+        chai.assert.deepEqual(argon2.Guard.getViolations(onTheBound, { maxMemoryKiB: 99999 }),
+            ["Memory 100000KiB is above the maximum of 99999KiB."]);
+    });
+
+    it("can tell when the host got slower and audit stored hashes", async function (): Promise<any> {
+        const calibrate = async (msPerWorkUnit: number, cpuModel: string) => ({
+            fingerprint: _.extend(argon2.Profile.getFingerprint(argon2.argon2i, "bisection", "maxcost"), { cpuModel: cpuModel }),
+            maxTimeMs: 100,
+            createdAt: new Date().toISOString(),
+            timingResult: await argon2.Measurement.generateTimings({
+                maxTimeMs: 100,
+                maxParallelism: 1,
+                backend: new argon2.Backend.SimulatedBackend({ interceptMs: 0, msPerWorkUnit: msPerWorkUnit })
+            }, new argon2.Measurement.BisectionStrategy())
+        });
+
+        const baseline = await calibrate(0.001, "Big");
+        const current = await calibrate(0.002, "Small");
+        const change = argon2.Audit.compare(baseline, current);
+        chai.assert.deepEqual(change.changedFields, ["cpuModel"]);
+        chai.assert.closeTo(change.slowdown, 2, 0.01);
+        chai.assert.closeTo(argon2.Audit.compare(baseline, baseline).slowdown, 1, 0.01);
+
+        // 2^14 KiB for 3 passes is about 98ms here, and 2^16 KiB about 393ms
+        const fast = "$argon2i$v=19$m=16384,t=3,p=1$c2FsdHNhbHQ$aGFzaGhhc2g";
+        const slow = "$argon2id$v=19$m=65536,t=3,p=1$c2FsdHNhbHQ$aGFzaGhhc2g";
+        const model = argon2.Model.fit(current.timingResult);
+        const hashes = [fast, slow, "$pepper$key1" + slow, "pbkdf2_sha256$260000$salt$hash", fast];
+
+        const report = argon2.Audit.auditHashes(model, hashes, 100);
+        chai.assert.strictEqual(report.total, 5);
+        chai.assert.strictEqual(report.unrecognized, 1);
+        chai.assert.deepEqual(_.map(report.groups, g => [g.key, g.count, g.overBudget]), [
+            ["argon2id$v=19$m=65536,t=3,p=1", 2, true],
+            ["argon2i$v=19$m=16384,t=3,p=1", 2, false]
+        ]);
+        chai.assert.deepEqual(report.overBudget, [report.groups[0]]);
+
+        const owasp = argon2.Audit.auditHashes(model, ["$argon2id$v=19$m=19456,t=2,p=1$c2FsdHNhbHQ$aGFzaGhhc2g"], 100);
+        chai.assert.strictEqual(owasp.groups[0].key, "argon2id$v=19$m=19456,t=2,p=1", "m isn't a power of two, but the key is exact");
+
+        const hashesPath = path.join(os.tmpdir(), `argon2themax-hashes-${process.pid}.txt`);
+        fs.writeFileSync(hashesPath, hashes.join("\n") + "\n\n");
+        const streamed = await argon2.Audit.auditStream(model, fs.createReadStream(hashesPath), 100);
+        fs.unlinkSync(hashesPath);
+        chai.assert.deepEqual(streamed, report, "Blank lines are skipped");
+    });
+});